@@ -0,0 +1,110 @@
+#!/usr/bin/env node
+// JWT signing key management
+//
+// Usage:
+//   node scripts/jwt-keys.js rotate [RS256|ES256]  create a new active key and retire the current one
+//   node scripts/jwt-keys.js list                  show all keys
+//   node scripts/jwt-keys.js prune [days]          remove keys retired more than N days ago (default 7)
+//
+// Keys are stored in JWT_KEYS_FILE (default keys/jwt-keys.json). Send SIGHUP to
+// the server, or restart it, to pick up changes. Keep retired keys for at least
+// the access token lifetime (JWT_EXPIRES_IN) so issued tokens stay valid.
+
+const crypto = require('crypto');
+const fs = require('fs');
+const path = require('path');
+
+const keyFile =
+  process.env.JWT_KEYS_FILE || path.join(process.cwd(), 'keys/jwt-keys.json');
+
+function readKeys() {
+  if (!fs.existsSync(keyFile)) {
+    return { keys: [] };
+  }
+  return JSON.parse(fs.readFileSync(keyFile, 'utf8'));
+}
+
+function writeKeys(file) {
+  fs.mkdirSync(path.dirname(keyFile), { recursive: true });
+  fs.writeFileSync(keyFile, `${JSON.stringify(file, null, 2)}\n`, {
+    mode: 0o600,
+  });
+}
+
+function generateKey(alg) {
+  const { publicKey, privateKey } =
+    alg === 'ES256'
+      ? crypto.generateKeyPairSync('ec', { namedCurve: 'P-256' })
+      : crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+
+  return {
+    kid: crypto.randomBytes(8).toString('hex'),
+    alg,
+    privateKey: privateKey.export({ type: 'pkcs8', format: 'pem' }),
+    publicKey: publicKey.export({ type: 'spki', format: 'pem' }),
+    createdAt: new Date().toISOString(),
+  };
+}
+
+function rotate(alg = 'RS256') {
+  if (!['RS256', 'ES256'].includes(alg)) {
+    throw new Error(`Unsupported algorithm: ${alg}`);
+  }
+
+  const file = readKeys();
+  const now = new Date().toISOString();
+  for (const key of file.keys) {
+    if (!key.retiredAt) {
+      key.retiredAt = now;
+    }
+  }
+
+  const key = generateKey(alg);
+  file.keys.push(key);
+  writeKeys(file);
+  console.log(`Created ${alg} key ${key.kid} in ${keyFile}`);
+}
+
+function list() {
+  const { keys } = readKeys();
+  if (keys.length === 0) {
+    console.log(`No keys in ${keyFile}`);
+    return;
+  }
+  for (const key of keys) {
+    const state = key.retiredAt ? `retired ${key.retiredAt}` : 'active';
+    console.log(`${key.kid}  ${key.alg}  created ${key.createdAt}  ${state}`);
+  }
+}
+
+function prune(days = '7') {
+  const maxAge = Number(days) * 24 * 60 * 60 * 1000;
+  if (!Number.isFinite(maxAge) || maxAge < 0) {
+    throw new Error(`Invalid number of days: ${days}`);
+  }
+
+  const file = readKeys();
+  const cutoff = Date.now() - maxAge;
+  const kept = file.keys.filter(
+    key => !key.retiredAt || new Date(key.retiredAt).getTime() > cutoff
+  );
+  const removed = file.keys.length - kept.length;
+
+  writeKeys({ ...file, keys: kept });
+  console.log(`Removed ${removed} retired key(s)`);
+}
+
+const [command, arg] = process.argv.slice(2);
+const commands = { rotate, list, prune };
+
+if (!commands[command]) {
+  console.error('Usage: node scripts/jwt-keys.js <rotate|list|prune> [arg]');
+  process.exit(1);
+}
+
+try {
+  commands[command](arg);
+} catch (error) {
+  console.error(error.message);
+  process.exit(1);
+}
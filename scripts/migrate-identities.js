@@ -0,0 +1,109 @@
+#!/usr/bin/env node
+// Move legacy OAuth provider ids into User.identities
+//
+// Usage:
+//   node scripts/migrate-identities.js [--dry-run]
+//
+// Users created before linked identities stored their provider ids in the
+// googleId, facebookId and githubId fields. Those fields are no longer read,
+// so such users could not sign in with their provider until migrated. Each id
+// becomes an entry in identities and the old field is removed. Users that
+// already have an identity for a provider keep it; a differing legacy id is
+// reported and left in place for manual review. Safe to run more than once.
+
+require('dotenv').config();
+const mongoose = require('mongoose');
+
+const uri = process.env.MONGODB_URI || 'mongodb://localhost:27017/glyde-dev';
+const providers = ['google', 'facebook', 'github'];
+
+async function migrateProvider(users, provider, dryRun) {
+  const field = `${provider}Id`;
+  const legacy = { [field]: { $exists: true, $nin: [null, ''] } };
+
+  const toMove = { ...legacy, 'identities.provider': { $ne: provider } };
+  const alreadyLinked = {
+    ...legacy,
+    identities: {
+      $elemMatch: { provider, providerId: { $exists: true } },
+    },
+  };
+  const conflicts = await users
+    .find(
+      {
+        ...alreadyLinked,
+        $expr: {
+          $not: {
+            $in: [{ $toString: `$${field}` }, '$identities.providerId'],
+          },
+        },
+      },
+      { projection: { _id: 1 } }
+    )
+    .toArray();
+
+  if (dryRun) {
+    const moved = await users.countDocuments(toMove);
+    console.log(
+      `${provider}: ${moved} to migrate, ${conflicts.length} conflicting`
+    );
+    return;
+  }
+
+  const moved = await users.updateMany(toMove, [
+    {
+      $set: {
+        identities: {
+          $concatArrays: [
+            { $ifNull: ['$identities', []] },
+            [
+              {
+                provider,
+                providerId: { $toString: `$${field}` },
+                email: '$email',
+                linkedAt: { $ifNull: ['$createdAt', '$$NOW'] },
+              },
+            ],
+          ],
+        },
+      },
+    },
+    { $unset: field },
+  ]);
+
+  // Drop legacy ids that duplicate an identity the user already has
+  const cleaned = await users.updateMany(
+    {
+      ...alreadyLinked,
+      _id: { $nin: conflicts.map(user => user._id) },
+    },
+    { $unset: { [field]: 1 } }
+  );
+
+  console.log(
+    `${provider}: migrated ${moved.modifiedCount}, removed ${cleaned.modifiedCount} duplicate id(s)`
+  );
+  for (const user of conflicts) {
+    console.warn(
+      `${provider}: user ${user._id} has a different linked ${provider} account, kept ${field} for review`
+    );
+  }
+}
+
+async function main() {
+  const dryRun = process.argv.includes('--dry-run');
+  await mongoose.connect(uri);
+  try {
+    const users = mongoose.connection.collection('users');
+    for (const provider of providers) {
+      await migrateProvider(users, provider, dryRun);
+    }
+  } finally {
+    await mongoose.disconnect();
+  }
+}
+
+main().catch(error => {
+  console.error(error.message);
+  process.exit(1);
+});
@@ -1,4 +1,5 @@
 import nodemailer from 'nodemailer';
+import EmailOutbox from '../models/EmailOutbox.model';
 import { logger } from '../utils/logger';
 
 /**
@@ -17,7 +18,7 @@ interface EmailConfig {
   from: string;
 }
 
-interface EmailOptions {
+export interface EmailOptions {
   to: string | string[];
   subject: string;
   text?: string;
@@ -25,6 +26,7 @@ interface EmailOptions {
   attachments?: Array<{
     filename: string;
     content: Buffer | string;
+    encoding?: string;
     contentType?: string;
   }>;
 }
@@ -75,38 +77,73 @@ class EmailManager {
     }
   }
 
+  /**
+   * Queue an email in the outbox; EmailOutboxService delivers it
+   * @returns false when the message could not be stored
+   */
   public async sendEmail(options: EmailOptions): Promise<boolean> {
     try {
-      if (!this.isConfigured || !this.transporter) {
-        throw new Error('Email service not configured');
-      }
-
-      const config = this.getEmailConfig();
-
-      const mailOptions = {
-        from: config.from,
-        to: Array.isArray(options.to) ? options.to.join(', ') : options.to,
+      const message = await EmailOutbox.create({
+        to: Array.isArray(options.to) ? options.to : [options.to],
         subject: options.subject,
         text: options.text,
         html: options.html,
-        attachments: options.attachments,
-      };
-
-      const result = await this.transporter.sendMail(mailOptions);
+        attachments: (options.attachments || []).map(attachment =>
+          Buffer.isBuffer(attachment.content)
+            ? {
+                ...attachment,
+                content: attachment.content.toString('base64'),
+                encoding: 'base64',
+              }
+            : attachment
+        ),
+      });
 
-      logger.info('Email sent successfully:', {
-        messageId: result.messageId,
+      logger.info('Email queued:', {
+        outboxId: String(message._id),
         to: options.to,
         subject: options.subject,
       });
 
       return true;
     } catch (error) {
-      logger.error('Failed to send email:', error);
+      logger.error('Failed to queue email:', error);
       return false;
     }
   }
 
+  /**
+   * Send an email through the SMTP transporter right away
+   * Only the outbox worker should call this; request handlers use sendEmail.
+   * @returns the message id
+   */
+  public async deliverEmail(options: EmailOptions): Promise<string> {
+    if (!this.isConfigured || !this.transporter) {
+      throw new Error('Email service not configured');
+    }
+
+    const config = this.getEmailConfig();
+
+    const mailOptions = {
+      from: config.from,
+      to: Array.isArray(options.to) ? options.to.join(', ') : options.to,
+      subject: options.subject,
+      text: options.text,
+      html: options.html,
+      attachments: options.attachments,
+    };
+
+    const result = await this.transporter.sendMail(mailOptions);
+
+    logger.info('Email sent successfully:', {
+      messageId: result.messageId,
+      to: options.to,
+      subject: options.subject,
+    });
+
+    return result.messageId;
+  }
+
   public async sendWelcomeEmail(
     to: string,
     userName: string,
@@ -147,6 +184,31 @@ class EmailManager {
     return await this.sendEmail(emailOptions);
   }
 
+  public async sendMagicLinkEmail(
+    to: string,
+    userName: string,
+    loginUrl: string,
+    expiresInMinutes: number
+  ): Promise<boolean> {
+    const template = this.getMagicLinkEmailTemplate(
+      userName,
+      loginUrl,
+      expiresInMinutes
+    );
+
+    const emailOptions: EmailOptions = {
+      to,
+      subject: template.subject,
+      html: template.html,
+    };
+
+    if (template.text) {
+      emailOptions.text = template.text;
+    }
+
+    return await this.sendEmail(emailOptions);
+  }
+
   public async sendEmailVerification(
     to: string,
     userName: string,
@@ -170,6 +232,26 @@ class EmailManager {
     return await this.sendEmail(emailOptions);
   }
 
+  public async sendPasswordSetupCode(
+    to: string,
+    userName: string,
+    code: string
+  ): Promise<boolean> {
+    const template = this.getPasswordSetupCodeTemplate(userName, code);
+
+    const emailOptions: EmailOptions = {
+      to,
+      subject: template.subject,
+      html: template.html,
+    };
+
+    if (template.text) {
+      emailOptions.text = template.text;
+    }
+
+    return await this.sendEmail(emailOptions);
+  }
+
   public async sendPasswordChangeNotification(
     to: string,
     userName: string
@@ -189,6 +271,79 @@ class EmailManager {
     return await this.sendEmail(emailOptions);
   }
 
+  public async sendEmailChangeNotification(
+    to: string,
+    userName: string,
+    newEmail: string
+  ): Promise<boolean> {
+    const template = this.getEmailChangeNotificationTemplate(
+      userName,
+      newEmail
+    );
+
+    const emailOptions: EmailOptions = {
+      to,
+      subject: template.subject,
+      html: template.html,
+    };
+
+    if (template.text) {
+      emailOptions.text = template.text;
+    }
+
+    return await this.sendEmail(emailOptions);
+  }
+
+  public async sendNewDeviceLoginNotification(
+    to: string,
+    userName: string,
+    device: string,
+    location: string,
+    secureAccountUrl: string
+  ): Promise<boolean> {
+    const template = this.getNewDeviceLoginTemplate(
+      userName,
+      device,
+      location,
+      secureAccountUrl
+    );
+
+    const emailOptions: EmailOptions = {
+      to,
+      subject: template.subject,
+      html: template.html,
+    };
+
+    if (template.text) {
+      emailOptions.text = template.text;
+    }
+
+    return await this.sendEmail(emailOptions);
+  }
+
+  public async sendAccountDeletionScheduledNotification(
+    to: string,
+    userName: string,
+    scheduledFor: Date
+  ): Promise<boolean> {
+    const template = this.getAccountDeletionScheduledTemplate(
+      userName,
+      scheduledFor
+    );
+
+    const emailOptions: EmailOptions = {
+      to,
+      subject: template.subject,
+      html: template.html,
+    };
+
+    if (template.text) {
+      emailOptions.text = template.text;
+    }
+
+    return await this.sendEmail(emailOptions);
+  }
+
   public async sendAccountDeletionNotification(
     to: string,
     userName: string
@@ -208,6 +363,25 @@ class EmailManager {
     return await this.sendEmail(emailOptions);
   }
 
+  public async sendAccountUnlockedNotification(
+    to: string,
+    userName: string
+  ): Promise<boolean> {
+    const template = this.getAccountUnlockedTemplate(userName);
+
+    const emailOptions: EmailOptions = {
+      to,
+      subject: template.subject,
+      html: template.html,
+    };
+
+    if (template.text) {
+      emailOptions.text = template.text;
+    }
+
+    return await this.sendEmail(emailOptions);
+  }
+
   public isEmailServiceConfigured(): boolean {
     return this.isConfigured;
   }
@@ -382,6 +556,76 @@ class EmailManager {
     };
   }
 
+  private getMagicLinkEmailTemplate(
+    userName: string,
+    loginUrl: string,
+    expiresInMinutes: number
+  ): EmailTemplate {
+    const appName = process.env['APP_NAME'] || 'Glyde';
+    const frontendUrl = process.env['FRONTEND_URL'] || 'http://localhost:3000';
+
+    const html = `
+      <!DOCTYPE html>
+      <html>
+      <head>
+        <meta charset="utf-8">
+        <title>Your Login Link - ${appName}</title>
+      </head>
+      <body style="font-family: Arial, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px;">
+        <div style="text-align: center; margin-bottom: 30px;">
+          <h1 style="color: #007bff;">${appName}</h1>
+        </div>
+        
+        <h2>Log In to ${appName}</h2>
+        
+        <p>Hello ${userName},</p>
+        
+        <p>Click the button below to log in to your account. No password needed:</p>
+        
+        <div style="text-align: center; margin: 30px 0;">
+          <a href="${loginUrl}" style="background-color: #007bff; color: white; padding: 12px 24px; text-decoration: none; border-radius: 5px; display: inline-block;">Log In</a>
+        </div>
+        
+        <p>If the button doesn't work, you can copy and paste this link into your browser:</p>
+        <p style="word-break: break-all; color: #666;">${loginUrl}</p>
+        
+        <p><strong>This link can be used once and will expire in ${expiresInMinutes} minutes.</strong></p>
+        
+        <p>If you didn't request this link, please ignore this email. Nobody can log in without it.</p>
+        
+        <div style="margin-top: 40px; padding-top: 20px; border-top: 1px solid #eee; text-align: center; color: #666; font-size: 14px;">
+          <p>Best regards,<br>The ${appName} Team</p>
+          <p><a href="${frontendUrl}" style="color: #007bff;">${frontendUrl}</a></p>
+        </div>
+      </body>
+      </html>
+    `;
+
+    const text = `
+      Log In to ${appName}
+      
+      Hello ${userName},
+      
+      Visit the following link to log in to your account. No password needed:
+      
+      ${loginUrl}
+      
+      This link can be used once and will expire in ${expiresInMinutes} minutes.
+      
+      If you didn't request this link, please ignore this email. Nobody can log in without it.
+      
+      Best regards,
+      The ${appName} Team
+      ${frontendUrl}
+    `;
+
+    return {
+      subject: `Your Login Link - ${appName}`,
+      html,
+      text,
+    };
+  }
+
   private getEmailVerificationTemplate(
     userName: string,
     verificationCode: string
@@ -450,6 +694,74 @@ class EmailManager {
     };
   }
 
+  private getPasswordSetupCodeTemplate(
+    userName: string,
+    code: string
+  ): EmailTemplate {
+    const appName = process.env['APP_NAME'] || 'Glyde';
+    const frontendUrl = process.env['FRONTEND_URL'] || 'http://localhost:3000';
+
+    const html = `
+      <!DOCTYPE html>
+      <html>
+      <head>
+        <meta charset="utf-8">
+        <title>Add a Password - ${appName}</title>
+      </head>
+      <body style="font-family: Arial, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px;">
+        <div style="text-align: center; margin-bottom: 30px;">
+          <h1 style="color: #007bff;">${appName}</h1>
+        </div>
+        
+        <h2>Add a Password</h2>
+        
+        <p>Hello ${userName},</p>
+        
+        <p>We received a request to add a password to your account. Use the following code to confirm it:</p>
+        
+        <div style="text-align: center; margin: 30px 0;">
+          <div style="background-color: #f8f9fa; padding: 15px; border-radius: 5px; display: inline-block;">
+            <span style="font-size: 24px; font-weight: bold; letter-spacing: 5px; color: #28a745;">${code}</span>
+          </div>
+        </div>
+        
+        <p><strong>This code will expire in 10 minutes.</strong></p>
+        
+        <p>If you did not make this request, someone may have access to your account. Sign out of all devices and contact our support team immediately.</p>
+        
+        <div style="margin-top: 40px; padding-top: 20px; border-top: 1px solid #eee; text-align: center; color: #666; font-size: 14px;">
+          <p>Best regards,<br>The ${appName} Team</p>
+          <p><a href="${frontendUrl}" style="color: #007bff;">${frontendUrl}</a></p>
+        </div>
+      </body>
+      </html>
+    `;
+
+    const text = `
+      Add a Password - ${appName}
+      
+      Hello ${userName},
+      
+      We received a request to add a password to your account. Use the following code to confirm it:
+      
+      ${code}
+      
+      This code will expire in 10 minutes.
+      
+      If you did not make this request, someone may have access to your account. Sign out of all devices and contact our support team immediately.
+      
+      Best regards,
+      The ${appName} Team
+      ${frontendUrl}
+    `;
+
+    return {
+      subject: `Add a Password - ${appName}`,
+      html,
+      text,
+    };
+  }
+
   private getPasswordChangeNotificationTemplate(
     userName: string
   ): EmailTemplate {
@@ -505,6 +817,201 @@ class EmailManager {
     };
   }
 
+  private getEmailChangeNotificationTemplate(
+    userName: string,
+    newEmail: string
+  ): EmailTemplate {
+    const appName = process.env['APP_NAME'] || 'Glyde';
+    const frontendUrl = process.env['FRONTEND_URL'] || 'http://localhost:3000';
+
+    const html = `
+      <!DOCTYPE html>
+      <html>
+      <head>
+        <meta charset="utf-8">
+        <title>Email Change Requested - ${appName}</title>
+      </head>
+      <body style="font-family: Arial, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px;">
+        <div style="text-align: center; margin-bottom: 30px;">
+          <h1 style="color: #007bff;">${appName}</h1>
+        </div>
+        
+        <h2>Email Change Requested</h2>
+        
+        <p>Hello ${userName},</p>
+        
+        <p>We received a request to change the email address of your account to <strong>${newEmail}</strong>. The change takes effect once the code sent to the new address is confirmed.</p>
+        
+        <p>If you did not make this request, please change your password and contact our support team immediately.</p>
+        
+        <div style="margin-top: 40px; padding-top: 20px; border-top: 1px solid #eee; text-align: center; color: #666; font-size: 14px;">
+          <p>Best regards,<br>The ${appName} Team</p>
+          <p><a href="${frontendUrl}" style="color: #007bff;">${frontendUrl}</a></p>
+        </div>
+      </body>
+      </html>
+    `;
+
+    const text = `
+      Email Change Requested - ${appName}
+      
+      Hello ${userName},
+      
+      We received a request to change the email address of your account to ${newEmail}. The change takes effect once the code sent to the new address is confirmed.
+      
+      If you did not make this request, please change your password and contact our support team immediately.
+      
+      Best regards,
+      The ${appName} Team
+      ${frontendUrl}
+    `;
+
+    return {
+      subject: `Email Change Requested - ${appName}`,
+      html,
+      text,
+    };
+  }
+
+  private getNewDeviceLoginTemplate(
+    userName: string,
+    device: string,
+    location: string,
+    secureAccountUrl: string
+  ): EmailTemplate {
+    const appName = process.env['APP_NAME'] || 'Glyde';
+    const frontendUrl = process.env['FRONTEND_URL'] || 'http://localhost:3000';
+    const loginTime = new Date().toUTCString();
+
+    const html = `
+      <!DOCTYPE html>
+      <html>
+      <head>
+        <meta charset="utf-8">
+        <title>New Login to Your Account - ${appName}</title>
+      </head>
+      <body style="font-family: Arial, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px;">
+        <div style="text-align: center; margin-bottom: 30px;">
+          <h1 style="color: #007bff;">${appName}</h1>
+        </div>
+        
+        <h2>New Login to Your Account</h2>
+        
+        <p>Hello ${userName},</p>
+        
+        <p>Your ${appName} account was just signed in to from a device or location we haven't seen before:</p>
+        
+        <ul>
+          <li><strong>Device:</strong> ${device}</li>
+          <li><strong>Location:</strong> ${location}</li>
+          <li><strong>Time:</strong> ${loginTime}</li>
+        </ul>
+        
+        <p>If this was you, you can ignore this email.</p>
+        
+        <div style="text-align: center; margin: 30px 0;">
+          <a href="${secureAccountUrl}" style="background-color: #dc3545; color: white; padding: 12px 24px; text-decoration: none; border-radius: 5px; display: inline-block;">This wasn't me</a>
+        </div>
+        
+        <p>Choosing "This wasn't me" signs out every device and asks you to set a new password.</p>
+        
+        <div style="margin-top: 40px; padding-top: 20px; border-top: 1px solid #eee; text-align: center; color: #666; font-size: 14px;">
+          <p>Best regards,<br>The ${appName} Team</p>
+          <p><a href="${frontendUrl}" style="color: #007bff;">${frontendUrl}</a></p>
+        </div>
+      </body>
+      </html>
+    `;
+
+    const text = `
+      New Login to Your Account - ${appName}
+      
+      Hello ${userName},
+      
+      Your ${appName} account was just signed in to from a device or location we haven't seen before:
+      
+      Device: ${device}
+      Location: ${location}
+      Time: ${loginTime}
+      
+      If this was you, you can ignore this email.
+      
+      If this wasn't you, open the link below to sign out every device and set a new password:
+      ${secureAccountUrl}
+      
+      Best regards,
+      The ${appName} Team
+      ${frontendUrl}
+    `;
+
+    return {
+      subject: `New Login to Your Account - ${appName}`,
+      html,
+      text,
+    };
+  }
+
+  private getAccountDeletionScheduledTemplate(
+    userName: string,
+    scheduledFor: Date
+  ): EmailTemplate {
+    const appName = process.env['APP_NAME'] || 'Glyde';
+    const frontendUrl = process.env['FRONTEND_URL'] || 'http://localhost:3000';
+    const deletionDate = scheduledFor.toUTCString();
+
+    const html = `
+      <!DOCTYPE html>
+      <html>
+      <head>
+        <meta charset="utf-8">
+        <title>Account Deletion Scheduled - ${appName}</title>
+      </head>
+      <body style="font-family: Arial, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px;">
+        <div style="text-align: center; margin-bottom: 30px;">
+          <h1 style="color: #007bff;">${appName}</h1>
+        </div>
+        
+        <h2>Account Deletion Scheduled</h2>
+        
+        <p>Hello ${userName},</p>
+        
+        <p>We received a request to delete your ${appName} account. Your account and personal data will be deleted on <strong>${deletionDate}</strong>.</p>
+        
+        <p>Changed your mind? Sign in before that date and cancel the deletion from your account settings.</p>
+        
+        <p>If you did not make this request, please sign in, cancel the deletion and change your password immediately.</p>
+        
+        <div style="margin-top: 40px; padding-top: 20px; border-top: 1px solid #eee; text-align: center; color: #666; font-size: 14px;">
+          <p>Best regards,<br>The ${appName} Team</p>
+          <p><a href="${frontendUrl}" style="color: #007bff;">${frontendUrl}</a></p>
+        </div>
+      </body>
+      </html>
+    `;
+
+    const text = `
+      Account Deletion Scheduled - ${appName}
+      
+      Hello ${userName},
+      
+      We received a request to delete your ${appName} account. Your account and personal data will be deleted on ${deletionDate}.
+      
+      Changed your mind? Sign in before that date and cancel the deletion from your account settings.
+      
+      If you did not make this request, please sign in, cancel the deletion and change your password immediately.
+      
+      Best regards,
+      The ${appName} Team
+      ${frontendUrl}
+    `;
+
+    return {
+      subject: `Account Deletion Scheduled - ${appName}`,
+      html,
+      text,
+    };
+  }
+
   private getAccountDeletionNotificationTemplate(
     userName: string
   ): EmailTemplate {
@@ -529,7 +1036,7 @@ class EmailManager {
         
         <p>This is to confirm that your account has been successfully deleted from ${appName}.</p>
         
-        <p>All your data has been permanently removed from our systems.</p>
+        <p>Your personal data has been removed from our systems. Anonymized trip records are kept only where we are required to for accounting.</p>
         
         <p>Thank you for being part of our community. We're sorry to see you go!</p>
         
@@ -548,7 +1055,7 @@ class EmailManager {
       
       This is to confirm that your account has been successfully deleted from ${appName}.
       
-      All your data has been permanently removed from our systems.
+      Your personal data has been removed from our systems. Anonymized trip records are kept only where we are required to for accounting.
       
       Thank you for being part of our community. We're sorry to see you go!
       
@@ -563,6 +1070,59 @@ class EmailManager {
       text,
     };
   }
+
+  private getAccountUnlockedTemplate(userName: string): EmailTemplate {
+    const appName = process.env['APP_NAME'] || 'Glyde';
+    const frontendUrl = process.env['FRONTEND_URL'] || 'http://localhost:3000';
+
+    const html = `
+      <!DOCTYPE html>
+      <html>
+      <head>
+        <meta charset="utf-8">
+        <title>Account Unlocked - ${appName}</title>
+      </head>
+      <body style="font-family: Arial, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px;">
+        <div style="text-align: center; margin-bottom: 30px;">
+          <h1 style="color: #007bff;">${appName}</h1>
+        </div>
+        
+        <h2>Your Account Is Unlocked</h2>
+        
+        <p>Hello ${userName},</p>
+        
+        <p>The temporary lock on your ${appName} account has ended and you can sign in again.</p>
+        
+        <p>If the lock was caused by failed sign-in attempts you did not make, please reset your password after signing in.</p>
+        
+        <div style="margin-top: 40px; padding-top: 20px; border-top: 1px solid #eee; text-align: center; color: #666; font-size: 14px;">
+          <p>Best regards,<br>The ${appName} Team</p>
+          <p><a href="${frontendUrl}" style="color: #007bff;">${frontendUrl}</a></p>
+        </div>
+      </body>
+      </html>
+    `;
+
+    const text = `
+      Your Account Is Unlocked - ${appName}
+      
+      Hello ${userName},
+      
+      The temporary lock on your ${appName} account has ended and you can sign in again.
+      
+      If the lock was caused by failed sign-in attempts you did not make, please reset your password after signing in.
+      
+      Best regards,
+      The ${appName} Team
+      ${frontendUrl}
+    `;
+
+    return {
+      subject: `Account Unlocked - ${appName}`,
+      html,
+      text,
+    };
+  }
 }
 
 // Export singleton instance
@@ -582,6 +1142,12 @@ export const sendPasswordResetEmail = (
   userName: string,
   resetUrl: string
 ) => emailManager.sendPasswordResetEmail(to, userName, resetUrl);
+export const sendMagicLinkEmail = (
+  to: string,
+  userName: string,
+  loginUrl: string,
+  expiresInMinutes: number
+) => emailManager.sendMagicLinkEmail(to, userName, loginUrl, expiresInMinutes);
 export const sendEmailVerification = (
   to: string,
   userName: string,
@@ -589,5 +1155,36 @@ export const sendEmailVerification = (
 ) => emailManager.sendEmailVerification(to, userName, verificationUrl);
 export const sendPasswordChangeNotification = (to: string, userName: string) =>
   emailManager.sendPasswordChangeNotification(to, userName);
+export const sendEmailChangeNotification = (
+  to: string,
+  userName: string,
+  newEmail: string
+) => emailManager.sendEmailChangeNotification(to, userName, newEmail);
+export const sendNewDeviceLoginNotification = (
+  to: string,
+  userName: string,
+  device: string,
+  location: string,
+  secureAccountUrl: string
+) =>
+  emailManager.sendNewDeviceLoginNotification(
+    to,
+    userName,
+    device,
+    location,
+    secureAccountUrl
+  );
+export const sendAccountDeletionScheduledNotification = (
+  to: string,
+  userName: string,
+  scheduledFor: Date
+) =>
+  emailManager.sendAccountDeletionScheduledNotification(
+    to,
+    userName,
+    scheduledFor
+  );
 export const sendAccountDeletionNotification = (to: string, userName: string) =>
   emailManager.sendAccountDeletionNotification(to, userName);
+export const sendAccountUnlockedNotification = (to: string, userName: string) =>
+  emailManager.sendAccountUnlockedNotification(to, userName);
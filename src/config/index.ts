@@ -6,12 +6,20 @@ export * from './database';
 
 // Authentication and security
 export * from './jwt';
+export * from './jwks';
 export * from './passport';
 
 // External services
 export * from './cloudinary';
 export * from './redis';
 export * from './email';
+export * from './sms';
+
+// Placeholder 2FA key, only usable outside production
+const DEFAULT_TWO_FACTOR_ENCRYPTION_KEY = 'your-2fa-encryption-key';
+
+// Placeholder OTP hashing key, only usable outside production
+const DEFAULT_OTP_HASH_KEY = 'your-otp-hash-key';
 
 // Environment configuration
 export const config = {
@@ -59,6 +67,72 @@ export const config = {
     passwordMinLength: parseInt(process.env['PASSWORD_MIN_LENGTH'] || '8', 10),
     maxLoginAttempts: parseInt(process.env['MAX_LOGIN_ATTEMPTS'] || '5', 10),
     lockoutDuration: parseInt(process.env['LOCKOUT_DURATION'] || '900000', 10), // 15 minutes
+    otpMaxAttempts: parseInt(process.env['OTP_MAX_ATTEMPTS'] || '5', 10),
+    otpHashKey: process.env['OTP_HASH_KEY'] || DEFAULT_OTP_HASH_KEY,
+    otpResendCooldown: parseInt(
+      process.env['OTP_RESEND_COOLDOWN'] || '60000',
+      10
+    ), // 1 minute
+    passwordResetExpiry: parseInt(
+      process.env['PASSWORD_RESET_EXPIRY'] || '3600000',
+      10
+    ), // 1 hour
+    accountDeletionGracePeriod: parseInt(
+      process.env['ACCOUNT_DELETION_GRACE_PERIOD'] || '1209600000',
+      10
+    ), // 14 days
+    accountPurgeInterval: parseInt(
+      process.env['ACCOUNT_PURGE_INTERVAL'] || '3600000',
+      10
+    ), // 1 hour
+    blockExpiryInterval: parseInt(
+      process.env['BLOCK_EXPIRY_INTERVAL'] || '60000',
+      10
+    ), // 1 minute
+    apiKeyRateLimit: parseInt(process.env['API_KEY_RATE_LIMIT'] || '600', 10), // requests per minute
+    magicLinkExpiry: parseInt(process.env['MAGIC_LINK_EXPIRY'] || '900000', 10), // 15 minutes
+    magicLinkMaxOutstanding: parseInt(
+      process.env['MAGIC_LINK_MAX_OUTSTANDING'] || '3',
+      10
+    ),
+    loginAlertLinkExpiry: parseInt(
+      process.env['LOGIN_ALERT_LINK_EXPIRY'] || '604800000',
+      10
+    ), // 7 days
+    maxKnownDevices: parseInt(process.env['MAX_KNOWN_DEVICES'] || '20', 10),
+    // CSV of startIp,endIp,country,region rows used for coarse login locations
+    geoIpTable: process.env['GEOIP_TABLE_FILE'] || 'data/geoip-ranges.csv',
+    twoFactorIssuer:
+      process.env['TWO_FACTOR_ISSUER'] || process.env['APP_NAME'] || 'Glyde',
+    twoFactorEncryptionKey:
+      process.env['TWO_FACTOR_ENCRYPTION_KEY'] ||
+      DEFAULT_TWO_FACTOR_ENCRYPTION_KEY,
+    mfaTokenExpiry: process.env['MFA_TOKEN_EXPIRY'] || '5m',
+    impersonationTokenExpiry:
+      process.env['IMPERSONATION_TOKEN_EXPIRY'] || '15m',
+    // Base roles that must have two-factor authentication enabled
+    twoFactorRequiredRoles: (process.env['TWO_FACTOR_REQUIRED_ROLES'] || '')
+      .split(',')
+      .map(role => role.trim().toUpperCase())
+      .filter(Boolean),
+  },
+
+  // Email outbox configuration
+  emailOutbox: {
+    pollInterval: parseInt(
+      process.env['EMAIL_OUTBOX_POLL_INTERVAL'] || '5000',
+      10
+    ), // 5 seconds
+    batchSize: parseInt(process.env['EMAIL_OUTBOX_BATCH_SIZE'] || '20', 10),
+    maxAttempts: parseInt(process.env['EMAIL_OUTBOX_MAX_ATTEMPTS'] || '8', 10),
+    retryBaseDelay: parseInt(
+      process.env['EMAIL_OUTBOX_RETRY_BASE_DELAY'] || '60000',
+      10
+    ), // 1 minute, doubled after every failed attempt
+    sendingTimeout: parseInt(
+      process.env['EMAIL_OUTBOX_SENDING_TIMEOUT'] || '300000',
+      10
+    ), // 5 minutes
   },
 
   // Session configuration
@@ -101,6 +175,27 @@ export const config = {
   },
 };
 
+// TOTP secrets encrypted with the public placeholder key are not protected
+if (
+  config.security.twoFactorEncryptionKey ===
+    DEFAULT_TWO_FACTOR_ENCRYPTION_KEY &&
+  config.server.nodeEnv === 'production'
+) {
+  throw new Error(
+    'The default 2FA encryption key cannot be used in production. Set TWO_FACTOR_ENCRYPTION_KEY.'
+  );
+}
+
+// With a known key, stored OTP hashes could be reversed by trying every code
+if (
+  config.security.otpHashKey === DEFAULT_OTP_HASH_KEY &&
+  config.server.nodeEnv === 'production'
+) {
+  throw new Error(
+    'The default OTP hash key cannot be used in production. Set OTP_HASH_KEY.'
+  );
+}
+
 // Validate required environment variables
 export const validateConfig = (): void => {
   const requiredEnvVars = ['MONGODB_URI', 'JWT_SECRET', 'SESSION_SECRET'];
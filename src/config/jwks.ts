@@ -0,0 +1,135 @@
+import fs from 'fs';
+import path from 'path';
+import { JsonWebKey, KeyObject, createPublicKey } from 'crypto';
+import { logger } from '../utils/logger';
+
+/**
+ * Asymmetric JWT signing keys
+ *
+ * Keys live in a JSON key file (JWT_KEYS_FILE, default keys/jwt-keys.json)
+ * managed by scripts/jwt-keys.js. The newest key without a retiredAt date
+ * signs new access tokens; retired keys remain published and accepted until
+ * they are pruned, so tokens signed before a rotation stay valid.
+ */
+
+export type JwtKeyAlgorithm = 'RS256' | 'ES256';
+
+export interface StoredJwtKey {
+  kid: string;
+  alg: JwtKeyAlgorithm;
+  privateKey: string;
+  publicKey: string;
+  createdAt: string;
+  retiredAt?: string;
+}
+
+export interface JwtKeyFile {
+  keys: StoredJwtKey[];
+}
+
+export interface PublicJwk extends JsonWebKey {
+  kid: string;
+  alg: JwtKeyAlgorithm;
+  use: 'sig';
+}
+
+class JwtKeyStore {
+  private static instance: JwtKeyStore;
+  private filePath: string;
+  private keys: StoredJwtKey[] = [];
+  private publicKeys: Map<string, KeyObject> = new Map();
+
+  private constructor() {
+    this.filePath =
+      process.env['JWT_KEYS_FILE'] ||
+      path.join(process.cwd(), 'keys/jwt-keys.json');
+    this.load();
+  }
+
+  public static getInstance(): JwtKeyStore {
+    if (!JwtKeyStore.instance) {
+      JwtKeyStore.instance = new JwtKeyStore();
+    }
+    return JwtKeyStore.instance;
+  }
+
+  /**
+   * Re-read the key file, e.g. after a rotation
+   */
+  public reload(): void {
+    this.load();
+  }
+
+  public isEnabled(): boolean {
+    return this.keys.length > 0;
+  }
+
+  /**
+   * The key that signs new access tokens, or null when none is configured
+   */
+  public getSigningKey(): StoredJwtKey | null {
+    const active = this.keys
+      .filter(key => !key.retiredAt)
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+    return active[0] || null;
+  }
+
+  public getVerificationKey(
+    kid: string
+  ): { key: string; alg: JwtKeyAlgorithm } | null {
+    const stored = this.keys.find(key => key.kid === kid);
+    return stored ? { key: stored.publicKey, alg: stored.alg } : null;
+  }
+
+  /**
+   * Public keys in JWKS format for other services to verify tokens
+   */
+  public getJwks(): { keys: PublicJwk[] } {
+    return {
+      keys: this.keys.flatMap((stored): PublicJwk[] => {
+        const key = this.publicKeys.get(stored.kid);
+        return key
+          ? [
+              {
+                ...key.export({ format: 'jwk' }),
+                kid: stored.kid,
+                alg: stored.alg,
+                use: 'sig',
+              },
+            ]
+          : [];
+      }),
+    };
+  }
+
+  private load(): void {
+    if (!fs.existsSync(this.filePath)) {
+      this.keys = [];
+      this.publicKeys = new Map();
+      return;
+    }
+
+    try {
+      const file: JwtKeyFile = JSON.parse(
+        fs.readFileSync(this.filePath, 'utf8')
+      );
+      const publicKeys = new Map<string, KeyObject>();
+      for (const stored of file.keys) {
+        publicKeys.set(stored.kid, createPublicKey(stored.publicKey));
+      }
+
+      this.keys = file.keys;
+      this.publicKeys = publicKeys;
+      logger.info('JWT signing keys loaded', {
+        keys: file.keys.length,
+        activeKid: this.getSigningKey()?.kid,
+      });
+    } catch (error) {
+      logger.error('Failed to load JWT signing keys:', error);
+      throw new Error(`Invalid JWT key file: ${this.filePath}`);
+    }
+  }
+}
+
+// Export singleton instance
+export const jwtKeyStore = JwtKeyStore.getInstance();
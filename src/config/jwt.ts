@@ -1,13 +1,26 @@
 import jwt from 'jsonwebtoken';
+import { randomUUID } from 'crypto';
 import { logger } from '../utils/logger';
+import { PublicJwk, jwtKeyStore } from './jwks';
 
 /**
  * JWT configuration and token management
+ *
+ * Access tokens are signed with the active asymmetric key from the key store
+ * (RS256/ES256, with a kid header) so other services can verify them against
+ * the published JWKS. Without a key file they fall back to HS256 with
+ * JWT_SECRET. Refresh and action tokens are only read by this service and are
+ * always signed with HS256 secrets.
  */
 
 export interface JWTPayload {
   userId: string;
   role?: string;
+  jti?: string;
+  familyId?: string;
+  purpose?: string;
+  // Staff member acting as userId during impersonation
+  actorId?: string;
   iat?: number;
   exp?: number;
 }
@@ -17,12 +30,19 @@ export interface TokenPair {
   refreshToken: string;
 }
 
+// Purposes of the action tokens issued between a password check and 2FA
+export const MFA_PENDING_PURPOSE = 'mfa_pending';
+export const MFA_SETUP_PURPOSE = 'mfa_setup';
+
 class JWTManager {
   private static instance: JWTManager;
   private accessTokenSecret: string;
   private refreshTokenSecret: string;
   private accessTokenExpiry: string;
   private refreshTokenExpiry: string;
+  private accessTokenLifetime: number;
+  // HS256 access tokens stay valid until this date once signing keys exist
+  private legacyAccessTokensUntil: Date | null;
 
   private constructor() {
     this.accessTokenSecret =
@@ -31,15 +51,29 @@ class JWTManager {
       process.env['JWT_REFRESH_SECRET'] || 'your-super-secret-refresh-key-here';
     this.accessTokenExpiry = process.env['JWT_EXPIRES_IN'] || '7d';
     this.refreshTokenExpiry = process.env['JWT_REFRESH_EXPIRES_IN'] || '30d';
+    this.accessTokenLifetime = this.measureLifetime(this.accessTokenExpiry);
+    this.legacyAccessTokensUntil = this.parseCutover(
+      process.env['JWT_HS256_ACCEPT_UNTIL']
+    );
 
     if (
       this.accessTokenSecret === 'your-super-secret-jwt-key-here' ||
       this.refreshTokenSecret === 'your-super-secret-refresh-key-here'
     ) {
+      if (process.env['NODE_ENV'] === 'production') {
+        throw new Error(
+          'Default JWT secrets cannot be used in production. Set JWT_SECRET and JWT_REFRESH_SECRET.'
+        );
+      }
       logger.warn(
         'Using default JWT secrets. Please set JWT_SECRET and JWT_REFRESH_SECRET in production.'
       );
     }
+    if (!jwtKeyStore.isEnabled()) {
+      logger.warn(
+        'No JWT signing keys found, access tokens are signed with HS256. Run npm run keys:rotate to create one.'
+      );
+    }
   }
 
   public static getInstance(): JWTManager {
@@ -49,13 +83,26 @@ class JWTManager {
     return JWTManager.instance;
   }
 
-  public generateAccessToken(payload: Omit<JWTPayload, 'iat' | 'exp'>): string {
+  public generateAccessToken(
+    payload: Omit<JWTPayload, 'iat' | 'exp'>,
+    expiresIn: string | number = this.accessTokenExpiry
+  ): string {
     try {
-      const token = jwt.sign(payload, this.accessTokenSecret, {
-        expiresIn: this.accessTokenExpiry as string | number,
+      const claims = { ...payload, jti: payload.jti || randomUUID() };
+      const options = {
+        expiresIn,
         issuer: 'glyde-backend',
         audience: 'glyde-frontend',
-      } as jwt.SignOptions);
+      } as jwt.SignOptions;
+
+      const signingKey = jwtKeyStore.getSigningKey();
+      const token = signingKey
+        ? jwt.sign(claims, signingKey.privateKey, {
+            ...options,
+            algorithm: signingKey.alg,
+            keyid: signingKey.kid,
+          })
+        : jwt.sign(claims, this.accessTokenSecret, options);
 
       logger.info(`Access token generated for user: ${payload.userId}`);
       return token;
@@ -69,7 +116,8 @@ class JWTManager {
     payload: Omit<JWTPayload, 'iat' | 'exp'>
   ): string {
     try {
-      const token = jwt.sign(payload, this.refreshTokenSecret, {
+      const claims = { ...payload, jti: payload.jti || randomUUID() };
+      const token = jwt.sign(claims, this.refreshTokenSecret, {
         expiresIn: this.refreshTokenExpiry as string | number,
         issuer: 'glyde-backend',
         audience: 'glyde-frontend',
@@ -94,9 +142,11 @@ class JWTManager {
 
   public verifyAccessToken(token: string): JWTPayload {
     try {
-      const decoded = jwt.verify(token, this.accessTokenSecret, {
+      const { key, algorithm } = this.resolveAccessTokenKey(token);
+      const decoded = jwt.verify(token, key, {
         issuer: 'glyde-backend',
         audience: 'glyde-frontend',
+        algorithms: [algorithm],
       }) as JWTPayload;
 
       return decoded;
@@ -132,6 +182,69 @@ class JWTManager {
     }
   }
 
+  /**
+   * Generate a short-lived token bound to a single purpose
+   * (e.g. linking an OAuth account); it is not accepted as an access token
+   */
+  public generateActionToken(
+    payload: Omit<JWTPayload, 'iat' | 'exp' | 'purpose'>,
+    purpose: string,
+    expiresIn: string | number
+  ): string {
+    try {
+      const claims = { ...payload, purpose, jti: payload.jti || randomUUID() };
+      return jwt.sign(claims, this.accessTokenSecret, {
+        expiresIn,
+        issuer: 'glyde-backend',
+        audience: 'glyde-action',
+      } as jwt.SignOptions);
+    } catch (error) {
+      logger.error('Error generating action token:', error);
+      throw new Error('Failed to generate action token');
+    }
+  }
+
+  public verifyActionToken(token: string, purpose: string): JWTPayload {
+    try {
+      const decoded = jwt.verify(token, this.accessTokenSecret, {
+        issuer: 'glyde-backend',
+        audience: 'glyde-action',
+      }) as JWTPayload;
+
+      if (decoded.purpose !== purpose) {
+        throw new Error('Invalid action token');
+      }
+      return decoded;
+    } catch (error) {
+      if (error instanceof jwt.TokenExpiredError) {
+        throw new Error('Action token has expired');
+      } else if (error instanceof jwt.JsonWebTokenError) {
+        throw new Error('Invalid action token');
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Key that verifies an access token, chosen by its kid header
+   * Tokens without a kid were signed with the HS256 secret. Once signing keys
+   * exist they are only accepted until JWT_HS256_ACCEPT_UNTIL.
+   */
+  public getAccessTokenVerificationKey(token: string): string {
+    return this.resolveAccessTokenKey(token).key;
+  }
+
+  /**
+   * Lifetime of access tokens in seconds
+   */
+  public getAccessTokenLifetime(): number {
+    return this.accessTokenLifetime;
+  }
+
+  public getJwks(): { keys: PublicJwk[] } {
+    return jwtKeyStore.getJwks();
+  }
+
   public decodeToken(token: string): JWTPayload | null {
     try {
       const decoded = jwt.decode(token) as JWTPayload;
@@ -168,25 +281,51 @@ class JWTManager {
       return null;
     }
   }
+  // Let jsonwebtoken parse the expiry so lifetimes match issued tokens
+  private measureLifetime(expiresIn: string): number {
+    const { iat, exp } = jwt.decode(
+      jwt.sign({}, this.accessTokenSecret, {
+        expiresIn,
+      } as jwt.SignOptions)
+    ) as JWTPayload;
+    return (exp || 0) - (iat || 0);
+  }
 
-  public refreshAccessToken(refreshToken: string): string {
-    try {
-      const decoded = this.verifyRefreshToken(refreshToken);
+  private acceptsLegacyAccessTokens(): boolean {
+    return (
+      !!this.legacyAccessTokensUntil &&
+      Date.now() < this.legacyAccessTokensUntil.getTime()
+    );
+  }
 
-      // Generate new access token with the same payload (excluding iat and exp)
-      const newPayload: Omit<JWTPayload, 'iat' | 'exp'> = {
-        userId: decoded.userId,
-      };
+  private parseCutover(value: string | undefined): Date | null {
+    if (!value) {
+      return null;
+    }
+    const cutover = new Date(value);
+    if (Number.isNaN(cutover.getTime())) {
+      throw new Error(`Invalid JWT_HS256_ACCEPT_UNTIL date: ${value}`);
+    }
+    return cutover;
+  }
 
-      if (decoded.role) {
-        newPayload.role = decoded.role;
+  private resolveAccessTokenKey(token: string): {
+    key: string;
+    algorithm: jwt.Algorithm;
+  } {
+    const header = jwt.decode(token, { complete: true })?.header;
+    if (!header?.kid) {
+      if (jwtKeyStore.isEnabled() && !this.acceptsLegacyAccessTokens()) {
+        throw new jwt.JsonWebTokenError('Token has no signing key id');
       }
+      return { key: this.accessTokenSecret, algorithm: 'HS256' };
+    }
 
-      return this.generateAccessToken(newPayload);
-    } catch (error) {
-      logger.error('Error refreshing access token:', error);
-      throw error;
+    const verificationKey = jwtKeyStore.getVerificationKey(header.kid);
+    if (!verificationKey) {
+      throw new jwt.JsonWebTokenError('Unknown signing key');
     }
+    return { key: verificationKey.key, algorithm: verificationKey.alg };
   }
 }
 
@@ -203,9 +342,6 @@ export const verifyToken = (token: string) =>
 export const verifyRefreshToken = (token: string) =>
   jwtManager.verifyRefreshToken(token);
 
-export const refreshToken = (refreshToken: string) =>
-  jwtManager.refreshAccessToken(refreshToken);
-
 export const isExpired = (token: string) => jwtManager.isTokenExpired(token);
 
 export const decodeJWT = (token: string) => jwtManager.decodeToken(token);
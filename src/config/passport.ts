@@ -1,25 +1,99 @@
+import { createHash, randomBytes, randomUUID } from 'crypto';
+import { Request } from 'express';
 import passport from 'passport';
-import { Strategy as GoogleStrategy } from 'passport-google-oauth20';
-import { Strategy as FacebookStrategy } from 'passport-facebook';
-import { Strategy as GitHubStrategy } from 'passport-github2';
+import {
+  Profile as GoogleProfile,
+  Strategy as GoogleStrategy,
+  VerifyCallback,
+} from 'passport-google-oauth20';
+import {
+  Profile as FacebookProfile,
+  Strategy as FacebookStrategy,
+} from 'passport-facebook';
+import {
+  Profile as GitHubProfile,
+  Strategy as GitHubStrategy,
+} from 'passport-github2';
 import { ExtractJwt, Strategy as JwtStrategy } from 'passport-jwt';
 import { logger } from '../utils/logger';
-// import { User } from '@/models/user.model'; // Will be uncommented when User model is created
+import { User, UserDocument } from '@/models/User.model';
+import { emailManager } from './email';
+import { jwtManager } from './jwt';
+import { redisManager } from './redis';
 
 /**
  * Passport configuration for authentication strategies
  */
 
+export type OAuthProvider = 'google' | 'facebook' | 'github';
+
 interface OAuthProfile {
   id: string;
   displayName: string;
   emails: Array<{ value: string; verified?: boolean }>;
   photos: Array<{ value: string }>;
-  provider: string;
+  provider: OAuthProvider;
+}
+
+// Address returned by GitHub when allRawEmails is set
+interface GitHubEmail {
+  value: string;
+  primary?: boolean;
+  verified?: boolean;
+}
+
+// Purpose of the action token carried in the OAuth state when linking
+export const OAUTH_LINK_PURPOSE = 'oauth_link';
+
+// Cookie holding the browser nonce that an OAuth link state is bound to
+export const OAUTH_LINK_COOKIE = 'oauth_link_nonce';
+
+// Lifetime of an account-linking request in seconds
+export const OAUTH_LINK_EXPIRY_SECONDS = 600;
+
+// Cookie holding the browser nonce that an OAuth login state is bound to
+export const OAUTH_LOGIN_COOKIE = 'oauth_login_nonce';
+
+// Lifetime of an OAuth login request in seconds
+export const OAUTH_LOGIN_EXPIRY_SECONDS = 600;
+
+// Login states are opaque random values, link states are signed tokens
+const LOGIN_STATE_PATTERN = /^[a-f0-9]{64}$/;
+
+/**
+ * Account-linking request issued to a signed-in user. The state travels
+ * through the provider; the nonce stays in an httpOnly cookie so the
+ * callback only links when it runs in the browser that started the flow.
+ */
+export interface OAuthLinkState {
+  state: string;
+  nonce: string;
+}
+
+/**
+ * OAuth login request bound to the browser that started it the same way, so
+ * a callback carrying someone else's authorization code cannot sign the
+ * victim's browser in to the attacker's account.
+ */
+export type OAuthLoginState = OAuthLinkState;
+
+/**
+ * Raised when an OAuth email matches an existing account that cannot be
+ * linked automatically. The owner has to sign in and link the provider from
+ * /auth/identities instead.
+ */
+export class OAuthLinkRequiredError extends Error {
+  constructor(provider: OAuthProvider) {
+    super(
+      `An account with this email already exists. Sign in and link ${provider} from your account settings.`
+    );
+    this.name = 'OAuthLinkRequiredError';
+  }
 }
 
 class PassportManager {
   private static instance: PassportManager;
+  private enabledProviders: Set<OAuthProvider> = new Set();
 
   private constructor() {}
 
@@ -40,30 +114,37 @@ class PassportManager {
     logger.info('Passport strategies initialized successfully');
   }
 
-  private setupJWTStrategy(): void {
-    const jwtSecret =
-      process.env['JWT_SECRET'] || 'your-super-secret-jwt-key-here';
+  public isProviderEnabled(provider: OAuthProvider): boolean {
+    return this.enabledProviders.has(provider);
+  }
 
+  private setupJWTStrategy(): void {
     passport.use(
       new JwtStrategy(
         {
           jwtFromRequest: ExtractJwt.fromAuthHeaderAsBearerToken(),
-          secretOrKey: jwtSecret,
+          secretOrKeyProvider: (
+            _req: Request,
+            rawJwtToken: string,
+            done: (error: unknown, key?: string) => void
+          ) => {
+            try {
+              done(null, jwtManager.getAccessTokenVerificationKey(rawJwtToken));
+            } catch (error) {
+              done(error);
+            }
+          },
           issuer: 'glyde-backend',
           audience: 'glyde-frontend',
+          algorithms: ['HS256', 'RS256', 'ES256'],
         },
         async (payload: any, done: any) => {
           try {
-            // TODO: Uncomment when User model is available
-            // const user = await User.findById(payload.userId).select('-password');
-            // if (user) {
-            //   return done(null, user);
-            // } else {
-            //   return done(null, false);
-            // }
-
-            // Temporary implementation
-            return done(null, { id: payload.userId, email: payload.email });
+            const user = await User.findById(payload.userId);
+            if (user && user.status === 'ACTIVE') {
+              return done(null, user);
+            }
+            return done(null, false);
           } catch (error) {
             logger.error('JWT Strategy error:', error);
             return done(error, false);
@@ -85,6 +166,7 @@ class PassportManager {
       return;
     }
 
+    this.enabledProviders.add('google');
     passport.use(
       new GoogleStrategy(
         {
@@ -92,12 +174,14 @@ class PassportManager {
           clientSecret,
           callbackURL,
           scope: ['profile', 'email'],
+          passReqToCallback: true,
         },
         async (
+          req: Request,
           _accessToken: string,
           _refreshToken: string,
-          profile: any,
-          done: any
+          profile: GoogleProfile,
+          done: VerifyCallback
         ) => {
           try {
             const oauthProfile: OAuthProfile = {
@@ -108,11 +192,14 @@ class PassportManager {
               provider: 'google',
             };
 
-            const user = await this.handleOAuthUser(oauthProfile);
+            const user = await this.handleOAuthUser(
+              oauthProfile,
+              await this.resolveState(req)
+            );
             return done(null, user);
           } catch (error) {
             logger.error('Google Strategy error:', error);
-            return done(error, null);
+            return done(error, false);
           }
         }
       )
@@ -131,6 +218,7 @@ class PassportManager {
       return;
     }
 
+    this.enabledProviders.add('facebook');
     passport.use(
       new FacebookStrategy(
         {
@@ -138,14 +226,17 @@ class PassportManager {
           clientSecret,
           callbackURL,
           profileFields: ['id', 'displayName', 'emails', 'photos'],
+          passReqToCallback: true,
         },
         async (
+          req: Request,
           _accessToken: string,
           _refreshToken: string,
-          profile: any,
-          done: any
+          profile: FacebookProfile,
+          done: VerifyCallback
         ) => {
           try {
+            // Facebook does not say whether an address is verified
             const oauthProfile: OAuthProfile = {
               id: profile.id,
               displayName: profile.displayName,
@@ -154,11 +245,14 @@ class PassportManager {
               provider: 'facebook',
             };
 
-            const user = await this.handleOAuthUser(oauthProfile);
+            const user = await this.handleOAuthUser(
+              oauthProfile,
+              await this.resolveState(req)
+            );
             return done(null, user);
           } catch (error) {
             logger.error('Facebook Strategy error:', error);
-            return done(error, null);
+            return done(error, false);
           }
         }
       )
@@ -177,6 +271,7 @@ class PassportManager {
       return;
     }
 
+    this.enabledProviders.add('github');
     passport.use(
       new GitHubStrategy(
         {
@@ -184,27 +279,40 @@ class PassportManager {
           clientSecret,
           callbackURL,
           scope: ['user:email'],
+          // Keep the verified flag of each address
+          allRawEmails: true,
+          passReqToCallback: true,
         },
         async (
+          req: Request,
           _accessToken: string,
           _refreshToken: string,
-          profile: any,
-          done: any
+          profile: GitHubProfile,
+          done: VerifyCallback
         ) => {
           try {
             const oauthProfile: OAuthProfile = {
               id: profile.id,
-              displayName: profile.displayName || profile.username,
-              emails: profile.emails || [],
+              displayName: profile.displayName || profile.username || '',
+              // Primary address first
+              emails: [...((profile.emails || []) as GitHubEmail[])]
+                .sort((a, b) => Number(!!b.primary) - Number(!!a.primary))
+                .map(email => ({
+                  value: email.value,
+                  verified: email.verified === true,
+                })),
               photos: profile.photos || [],
               provider: 'github',
             };
 
-            const user = await this.handleOAuthUser(oauthProfile);
+            const user = await this.handleOAuthUser(
+              oauthProfile,
+              await this.resolveState(req)
+            );
             return done(null, user);
           } catch (error) {
             logger.error('GitHub Strategy error:', error);
-            return done(error, null);
+            return done(error, false);
           }
         }
       )
@@ -218,12 +326,8 @@ class PassportManager {
 
     passport.deserializeUser(async (id: string, done: any) => {
       try {
-        // TODO: Uncomment when User model is available
-        // const user = await User.findById(id).select('-password');
-        // done(null, user);
-
-        // Temporary implementation
-        done(null, { id });
+        const user = await User.findById(id);
+        done(null, user);
       } catch (error) {
         logger.error('Deserialize user error:', error);
         done(error, null);
@@ -231,65 +335,284 @@ class PassportManager {
     });
   }
 
-  private async handleOAuthUser(profile: OAuthProfile): Promise<any> {
+  /**
+   * Start an account-linking flow for a signed-in user
+   * The state is single use: its jti is tracked in Redis together with a
+   * hash of the browser nonce until the callback consumes it.
+   */
+  public async createLinkState(userId: string): Promise<OAuthLinkState> {
+    const jti = randomUUID();
+    const nonce = randomBytes(32).toString('hex');
+    const state = jwtManager.generateActionToken(
+      { userId, jti },
+      OAUTH_LINK_PURPOSE,
+      OAUTH_LINK_EXPIRY_SECONDS
+    );
+
+    await redisManager.set(
+      this.linkStateKey(jti),
+      { userId, nonceHash: this.hashNonce(nonce) },
+      OAUTH_LINK_EXPIRY_SECONDS
+    );
+    return { state, nonce };
+  }
+
+  /**
+   * Start an OAuth login flow
+   * Like link states, login states are single use and only accepted from the
+   * browser holding the nonce.
+   */
+  public async createLoginState(): Promise<OAuthLoginState> {
+    const state = randomBytes(32).toString('hex');
+    const nonce = randomBytes(32).toString('hex');
+
+    await redisManager.set(
+      this.loginStateKey(state),
+      this.hashNonce(nonce),
+      OAUTH_LOGIN_EXPIRY_SECONDS
+    );
+    return { state, nonce };
+  }
+
+  /**
+   * Check whether an OAuth state was issued by createLoginState
+   */
+  public isLoginState(state: unknown): boolean {
+    return typeof state === 'string' && LOGIN_STATE_PATTERN.test(state);
+  }
+
+  /**
+   * Check the OAuth state of a callback against the browser completing it
+   * @returns the user linking the provider, or undefined for a login
+   */
+  private async resolveState(req: Request): Promise<string | undefined> {
+    const state = req.query['state'];
+    if (typeof state !== 'string' || !state) {
+      throw new Error('OAuth state is missing');
+    }
+    if (!this.isLoginState(state)) {
+      return await this.getLinkingUserId(req, state);
+    }
+
+    // Deleting the key is the single-use check: only one callback can read it
+    const key = this.loginStateKey(state);
+    const nonceHash = await redisManager.get(key);
+    const removed = await redisManager.del(key);
+    const nonce = this.readCookie(req, OAUTH_LOGIN_COOKIE);
+    if (
+      !nonceHash ||
+      removed === 0 ||
+      !nonce ||
+      nonceHash !== this.hashNonce(nonce)
+    ) {
+      throw new Error('Login request is invalid, used or from another browser');
+    }
+    return undefined;
+  }
+
+  /**
+   * Resolve the user who started an account-linking flow from the OAuth state
+   * and the nonce cookie of the browser completing it
+   */
+  private async getLinkingUserId(req: Request, state: string): Promise<string> {
+    const { userId, jti } = jwtManager.verifyActionToken(
+      state,
+      OAUTH_LINK_PURPOSE
+    );
+    if (!jti) {
+      throw new Error('Invalid link request');
+    }
+
+    // Deleting the key is the single-use check: only one callback can read it
+    const key = this.linkStateKey(jti);
+    const pending = await redisManager.get(key);
+    const removed = await redisManager.del(key);
+    const nonce = this.readCookie(req, OAUTH_LINK_COOKIE);
+
+    if (
+      !pending ||
+      removed === 0 ||
+      pending.userId !== userId ||
+      !nonce ||
+      pending.nonceHash !== this.hashNonce(nonce)
+    ) {
+      throw new Error('Link request is invalid, used or from another browser');
+    }
+    return userId;
+  }
+
+  private linkStateKey(jti: string): string {
+    return `oauth-link:${jti}`;
+  }
+
+  private loginStateKey(state: string): string {
+    return `oauth-login:${state}`;
+  }
+
+  private hashNonce(nonce: string): string {
+    return createHash('sha256').update(nonce).digest('hex');
+  }
+
+  private readCookie(req: Request, name: string): string | undefined {
+    for (const pair of (req.headers.cookie || '').split(';')) {
+      const separator = pair.indexOf('=');
+      if (separator > 0 && pair.slice(0, separator).trim() === name) {
+        try {
+          return decodeURIComponent(pair.slice(separator + 1).trim());
+        } catch {
+          return undefined;
+        }
+      }
+    }
+    return undefined;
+  }
+
+  private async handleOAuthUser(
+    profile: OAuthProfile,
+    linkingUserId?: string
+  ): Promise<UserDocument> {
     try {
-      // TODO: Implement user creation/retrieval logic when User model is available
-      // const email = profile.emails[0]?.value;
-      // if (!email) {
-      //   throw new Error('No email provided by OAuth provider');
-      // }
-
-      // // Check if user exists
-      // let user = await User.findOne({
-      //   $or: [
-      //     { email },
-      //     { [`oauth.${profile.provider}.id`]: profile.id }
-      //   ]
-      // });
-
-      // if (user) {
-      //   // Update OAuth info if user exists
-      //   user.oauth = user.oauth || {};
-      //   user.oauth[profile.provider] = {
-      //     id: profile.id,
-      //     email,
-      //     displayName: profile.displayName,
-      //     photo: profile.photos[0]?.value,
-      //   };
-      //   await user.save();
-      // } else {
-      //   // Create new user
-      //   user = new User({
-      //     email,
-      //     name: profile.displayName,
-      //     avatar: profile.photos[0]?.value,
-      //     isEmailVerified: true,
-      //     oauth: {
-      //       [profile.provider]: {
-      //         id: profile.id,
-      //         email,
-      //         displayName: profile.displayName,
-      //         photo: profile.photos[0]?.value,
-      //       }
-      //     }
-      //   });
-      //   await user.save();
-      // }
-
-      // return user;
-
-      // Temporary implementation
-      return {
-        id: profile.id,
-        email: profile.emails[0]?.value,
-        name: profile.displayName,
+      const image = profile.photos[0]?.value;
+      const primaryEmail = profile.emails[0];
+      const identityQuery = {
+        identities: {
+          $elemMatch: { provider: profile.provider, providerId: profile.id },
+        },
+      };
+
+      // Returning user who already signed in with this provider
+      const existingUser = await User.findOne(identityQuery);
+
+      if (linkingUserId) {
+        return await this.linkIdentity(
+          linkingUserId,
+          profile,
+          existingUser ? String(existingUser._id) : undefined
+        );
+      }
+
+      if (existingUser) {
+        existingUser.touchIdentity(profile.provider);
+        await existingUser.save();
+        return existingUser;
+      }
+
+      if (!primaryEmail?.value) {
+        throw new Error('No email provided by OAuth provider');
+      }
+      const email = primaryEmail.value.toLowerCase();
+      const identity = {
         provider: profile.provider,
+        providerId: profile.id,
+        email,
+        linkedAt: new Date(),
+        lastUsedAt: new Date(),
       };
+
+      // Link the provider to an existing account with the same email, but
+      // only when both sides have verified it. Otherwise whoever registered
+      // the address first would keep access to the account.
+      let user = await User.findOne({ email });
+      if (user) {
+        if (
+          primaryEmail.verified !== true ||
+          user.status === 'NEED_EMAIL_VERIFICATION'
+        ) {
+          logger.warn('Refused to link OAuth account by email', {
+            provider: profile.provider,
+            userId: user._id.toString(),
+          });
+          throw new OAuthLinkRequiredError(profile.provider);
+        }
+        user.identities.push(identity);
+        if (!user.image && image) {
+          user.image = image;
+        }
+        await user.save();
+        logger.info(`Linked ${profile.provider} account to existing user`, {
+          userId: user._id.toString(),
+        });
+        return user;
+      }
+
+      // Create a new user. Unless the provider vouches for the email, the
+      // account stays pending until the emailed code confirms it.
+      const isEmailVerified = primaryEmail.verified === true;
+      const [firstName = '', ...lastName] = (profile.displayName || '')
+        .trim()
+        .split(/\s+/);
+      user = new User({
+        firstName,
+        lastName: lastName.join(' '),
+        email,
+        image: image || '',
+        identities: [identity],
+        signupMethod: profile.provider.toUpperCase(),
+        status: isEmailVerified ? 'ACTIVE' : 'NEED_EMAIL_VERIFICATION',
+      });
+      const otp = isEmailVerified ? undefined : user.generateOTP();
+      await user.save();
+      logger.info(`Created user from ${profile.provider} account`, {
+        userId: user._id.toString(),
+      });
+
+      if (otp) {
+        const isEmailSent = await emailManager.sendEmailVerification(
+          email,
+          `${user.firstName} ${user.lastName}`,
+          otp.code
+        );
+        if (!isEmailSent) {
+          logger.error('Unable to send the verification email', {
+            userId: user._id.toString(),
+          });
+        }
+      }
+      return user;
     } catch (error) {
       logger.error('Error handling OAuth user:', error);
       throw error;
     }
   }
+
+  /**
+   * Attach a provider identity to the signed-in user who started the flow
+   */
+  private async linkIdentity(
+    userId: string,
+    profile: OAuthProfile,
+    ownerId?: string
+  ): Promise<UserDocument> {
+    if (ownerId && ownerId !== userId) {
+      throw new Error(
+        `This ${profile.provider} account is linked to another user`
+      );
+    }
+
+    const user = await User.findById(userId);
+    if (!user) {
+      throw new Error('User not found');
+    }
+
+    if (!ownerId) {
+      if (user.identities.some(i => i.provider === profile.provider)) {
+        throw new Error(
+          `A ${profile.provider} account is already linked to this user`
+        );
+      }
+      const email = profile.emails[0]?.value?.toLowerCase();
+      user.identities.push({
+        provider: profile.provider,
+        providerId: profile.id,
+        ...(email ? { email } : {}),
+        linkedAt: new Date(),
+        lastUsedAt: new Date(),
+      });
+      await user.save();
+      logger.info(`Linked ${profile.provider} account`, { userId });
+    }
+    return user;
+  }
 }
 
 // Export singleton instance
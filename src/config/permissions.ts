@@ -0,0 +1,104 @@
+/**
+ * Permission catalog and built-in roles for the RBAC policy engine
+ *
+ * Permissions use the `resource:action` format. A `:own` suffix restricts a
+ * grant to resources owned by the user, and `resource:*` or `*` act as
+ * wildcards.
+ */
+
+export interface PermissionDefinition {
+  key: string;
+  description: string;
+}
+
+export interface SystemRoleDefinition {
+  name: string;
+  description: string;
+  permissions: string[];
+}
+
+export const PERMISSIONS: PermissionDefinition[] = [
+  { key: 'users:read', description: 'View user accounts' },
+  { key: 'users:update', description: 'Update user accounts' },
+  { key: 'users:block', description: 'Block and unblock user accounts' },
+  { key: 'users:delete', description: 'Delete user accounts' },
+  { key: 'roles:manage', description: 'Create, update and assign roles' },
+  { key: 'sessions:revoke', description: 'Revoke user sessions' },
+  { key: 'api-keys:manage', description: 'Create, list and revoke API keys' },
+  { key: 'emails:read', description: 'View the outgoing email queue' },
+  { key: 'emails:retry', description: 'Retry emails that failed to send' },
+  { key: 'rides:read', description: 'View rides' },
+  { key: 'rides:cancel', description: 'Cancel rides' },
+  { key: 'rides:refund', description: 'Refund rides' },
+  { key: 'payments:read', description: 'View payments' },
+  { key: 'payments:refund', description: 'Refund payments' },
+  { key: 'fleet:read', description: 'View fleet vehicles and drivers' },
+  { key: 'fleet:manage', description: 'Manage fleet vehicles and drivers' },
+  { key: 'tests:read', description: 'View test records' },
+  { key: 'tests:write', description: 'Create, update and delete test records' },
+];
+
+export const SYSTEM_ROLES: SystemRoleDefinition[] = [
+  {
+    name: 'admin',
+    description: 'Full system access',
+    permissions: ['*'],
+  },
+  {
+    name: 'developer',
+    description: 'Engineering access for debugging',
+    permissions: ['users:read', 'rides:read', 'tests:*'],
+  },
+  {
+    name: 'user',
+    description: 'Rider access to their own data',
+    permissions: [
+      'users:read:own',
+      'users:update:own',
+      'sessions:revoke:own',
+      'rides:read:own',
+      'rides:cancel:own',
+      'payments:read:own',
+    ],
+  },
+  {
+    name: 'support_agent',
+    description: 'Customer support staff',
+    permissions: [
+      'users:read',
+      'users:block',
+      'sessions:revoke',
+      'rides:read',
+      'rides:cancel',
+    ],
+  },
+  {
+    name: 'fleet_operator',
+    description: 'Fleet operations staff',
+    permissions: ['fleet:read', 'fleet:manage', 'rides:read'],
+  },
+  {
+    name: 'finance',
+    description: 'Finance staff',
+    permissions: [
+      'payments:read',
+      'payments:refund',
+      'rides:read',
+      'rides:refund',
+    ],
+  },
+];
+
+// System role applied for each fixed IUser.role value
+export const BASE_ROLE_BY_USER_ROLE = {
+  USER: 'user',
+  ADMIN: 'admin',
+  DEVELOPER: 'developer',
+} as const;
+
+// Base roles allowed to impersonate riders
+export const IMPERSONATOR_ROLES = ['ADMIN', 'DEVELOPER'] as const;
+
+// Resources that impersonated sessions can never act on, whatever the
+// permissions of the impersonated user
+export const IMPERSONATION_BLOCKED_RESOURCES = ['payments'];
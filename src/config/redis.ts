@@ -229,6 +229,37 @@ class RedisManager {
     }
   }
 
+  // Set operations
+  public async sadd(key: string, member: string): Promise<number> {
+    try {
+      const client = this.getClient();
+      return await client.sadd(key, member);
+    } catch (error) {
+      logger.error('Redis SADD error:', error);
+      throw error;
+    }
+  }
+
+  public async srem(key: string, member: string): Promise<number> {
+    try {
+      const client = this.getClient();
+      return await client.srem(key, member);
+    } catch (error) {
+      logger.error('Redis SREM error:', error);
+      throw error;
+    }
+  }
+
+  public async smembers(key: string): Promise<string[]> {
+    try {
+      const client = this.getClient();
+      return await client.smembers(key);
+    } catch (error) {
+      logger.error('Redis SMEMBERS error:', error);
+      throw error;
+    }
+  }
+
   // Pub/Sub operations
   public async publish(channel: string, message: any): Promise<number> {
     try {
@@ -0,0 +1,134 @@
+import fs from 'fs';
+import path from 'path';
+import { logger } from '../utils/logger';
+
+/**
+ * SMS configuration and provider management
+ */
+
+export interface SmsMessage {
+  to: string;
+  body: string;
+}
+
+/**
+ * SMS provider contract
+ * Implement this interface to plug in a real gateway (Twilio, SNS, ...)
+ */
+export interface SmsProvider {
+  readonly name: string;
+  send(message: SmsMessage): Promise<void>;
+}
+
+/**
+ * Writes messages to the application log instead of sending them
+ * Intended for local development
+ */
+export class ConsoleSmsProvider implements SmsProvider {
+  public readonly name = 'console';
+
+  public async send(message: SmsMessage): Promise<void> {
+    logger.info('SMS message (console provider)', {
+      to: message.to,
+      body: message.body,
+    });
+  }
+}
+
+/**
+ * Appends messages as JSON lines to a file
+ * Intended for tests and environments without an SMS gateway
+ */
+export class FileSmsProvider implements SmsProvider {
+  public readonly name = 'file';
+  private filePath: string;
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+  }
+
+  public async send(message: SmsMessage): Promise<void> {
+    await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+    await fs.promises.appendFile(
+      this.filePath,
+      `${JSON.stringify({ ...message, sentAt: new Date().toISOString() })}\n`
+    );
+  }
+}
+
+class SmsManager {
+  private static instance: SmsManager;
+  private provider: SmsProvider;
+
+  private constructor() {
+    this.provider = this.createDefaultProvider();
+  }
+
+  public static getInstance(): SmsManager {
+    if (!SmsManager.instance) {
+      SmsManager.instance = new SmsManager();
+    }
+    return SmsManager.instance;
+  }
+
+  public setProvider(provider: SmsProvider): void {
+    this.provider = provider;
+    logger.info(`SMS provider set to: ${provider.name}`);
+  }
+
+  public getProvider(): SmsProvider {
+    return this.provider;
+  }
+
+  public async sendSms(message: SmsMessage): Promise<boolean> {
+    try {
+      await this.provider.send(message);
+      logger.info('SMS sent successfully', {
+        to: message.to,
+        provider: this.provider.name,
+      });
+      return true;
+    } catch (error) {
+      logger.error('Failed to send SMS:', error);
+      return false;
+    }
+  }
+
+  public async sendVerificationCode(
+    to: string,
+    verificationCode: string
+  ): Promise<boolean> {
+    const appName = process.env['APP_NAME'] || 'Glyde';
+
+    return await this.sendSms({
+      to,
+      body: `${verificationCode} is your ${appName} verification code. It expires in 10 minutes.`,
+    });
+  }
+
+  private createDefaultProvider(): SmsProvider {
+    const providerName = process.env['SMS_PROVIDER'] || 'console';
+
+    if (providerName === 'file') {
+      return new FileSmsProvider(
+        process.env['SMS_FILE_PATH'] || path.join(process.cwd(), 'logs/sms.log')
+      );
+    }
+
+    if (providerName !== 'console') {
+      logger.warn(
+        `Unknown SMS provider "${providerName}", falling back to console`
+      );
+    }
+    return new ConsoleSmsProvider();
+  }
+}
+
+// Export singleton instance
+export const smsManager = SmsManager.getInstance();
+
+// Convenience functions
+export const sendSms = (message: SmsMessage) => smsManager.sendSms(message);
+
+export const setSmsProvider = (provider: SmsProvider) =>
+  smsManager.setProvider(provider);
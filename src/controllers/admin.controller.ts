@@ -0,0 +1,502 @@
+import { Request, Response } from 'express';
+import User from '@/models/User.model';
+import { JWTPayload, config, jwtManager } from '@/config';
+import { AuditService } from '@/services/audit.service';
+import { PolicyService } from '@/services/policy.service';
+import { TokenService } from '@/services/token.service';
+import { DatabaseUtil } from '@/utils/database';
+import { logger, loggerUtils } from '@/utils/logger';
+import { ResponseUtil } from '@/utils/response';
+import { ListUsersInput } from '@/validations/admin.validation';
+
+// Secrets and bulky history are left out of user lists; the list is read with
+// lean() so the toJSON transform does not apply
+const USER_LIST_EXCLUDED_FIELDS = [
+  '-password',
+  '-otp',
+  '-passwordReset',
+  '-twoFactor.secret',
+  '-twoFactor.pendingSecret',
+  '-twoFactor.recoveryCodes',
+  '-twoFactor.lastUsedStep',
+  '-knownDevices',
+  '-rideHistory',
+  '-ratings',
+].join(' ');
+
+/**
+ * Whether the request comes from a signed-in ADMIN rather than an API key or
+ * another staff role. Only they may manage ADMIN and DEVELOPER accounts.
+ */
+const isSignedInAdmin = (res: Response): boolean =>
+  !res.locals['apiKey'] && res.locals['user']?.role === 'ADMIN';
+
+/**
+ * Admin Controller
+ * Handles administrative operations on user accounts
+ */
+export class AdminController {
+  /**
+   * List users with search, filters and pagination
+   * @route GET /api/v1/admin/users
+   */
+  public static async listUsers(req: Request, res: Response): Promise<void> {
+    try {
+      const {
+        page,
+        limit,
+        search,
+        status,
+        signupMethod,
+        role,
+        startDate,
+        endDate,
+        sort,
+        order,
+      } = req.query as unknown as ListUsersInput['query'];
+
+      const filter: Record<string, unknown> = {};
+      if (status) {
+        filter['status'] = status;
+      }
+      if (signupMethod) {
+        filter['signupMethod'] = signupMethod;
+      }
+      if (role) {
+        filter['role'] = role;
+      }
+      if (startDate || endDate) {
+        filter['createdAt'] = {
+          ...(startDate && { $gte: new Date(startDate) }),
+          ...(endDate && { $lte: new Date(endDate) }),
+        };
+      }
+
+      await DatabaseUtil.Paginated(req, res, User, {
+        page: Number(page),
+        limit: Number(limit),
+        // Search terms are matched literally, not as regular expressions
+        search: search?.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'),
+        sortBy: sort,
+        sortOrder: order,
+        searchFields: ['firstName', 'lastName', 'email', 'phone'],
+        filter,
+        select: USER_LIST_EXCLUDED_FIELDS,
+      });
+    } catch (error) {
+      logger.error('Failed to retrieve users', error);
+      ResponseUtil.error(res, 'Failed to retrieve users');
+    }
+  }
+
+  /**
+   * Get a single user with their roles, ride history and ratings
+   * @route GET /api/v1/admin/users/:id
+   */
+  public static async getUser(req: Request, res: Response): Promise<void> {
+    try {
+      const id = req.params['id'];
+
+      const user = await User.findById(id).populate(
+        'roles',
+        'name description'
+      );
+      if (!user) {
+        ResponseUtil.notFound(res, 'User not found');
+        return;
+      }
+
+      ResponseUtil.success(res, { user }, 'User retrieved successfully');
+    } catch (error) {
+      logger.error('Failed to retrieve user', error);
+      ResponseUtil.error(res, 'Failed to retrieve user');
+    }
+  }
+
+  /**
+   * Change the base role of a user
+   * The role is part of every token, so the user's sessions are revoked.
+   * @route PATCH /api/v1/admin/users/:id/role
+   */
+  public static async changeUserRole(
+    req: Request,
+    res: Response
+  ): Promise<void> {
+    try {
+      const id = req.params['id'];
+      const auth: JWTPayload = res.locals['auth'];
+      const { role } = req.body;
+
+      if (id === auth.userId) {
+        ResponseUtil.forbidden(res, 'You cannot change your own role');
+        return;
+      }
+
+      const user = await User.findById(id);
+      if (!user) {
+        ResponseUtil.notFound(res, 'User not found');
+        return;
+      }
+      if (user.role === role) {
+        ResponseUtil.badRequest(res, `User already has the ${role} role`);
+        return;
+      }
+      if ((role !== 'USER' || user.role !== 'USER') && !isSignedInAdmin(res)) {
+        ResponseUtil.forbidden(
+          res,
+          'Only an admin can grant or remove the ADMIN and DEVELOPER roles'
+        );
+        return;
+      }
+
+      const previousRole = user.role;
+      user.role = role;
+      await user.save();
+      await TokenService.revokeAllForUser(String(user._id));
+      await PolicyService.invalidateUser(String(user._id));
+
+      await AuditService.record(
+        {
+          action: 'user.role_change',
+          actorId: auth.userId,
+          subjectId: String(user._id),
+          details: { from: previousRole, to: role },
+        },
+        req
+      );
+      loggerUtils.logAuth(
+        'role_changed',
+        String(user._id),
+        user.email,
+        req.ip,
+        true,
+        { actorId: auth.userId }
+      );
+      ResponseUtil.success(res, { user }, 'User role updated successfully');
+    } catch (error) {
+      logger.error('Failed to change user role', error);
+      ResponseUtil.error(res, 'Failed to change user role');
+    }
+  }
+
+  /**
+   * Block a user, permanently or temporarily, and revoke their sessions
+   * Temporary blocks are released by BlockExpiryService once they end.
+   * @route POST /api/v1/admin/users/:id/block
+   */
+  public static async blockUser(req: Request, res: Response): Promise<void> {
+    try {
+      const id = req.params['id'];
+      const auth: JWTPayload = res.locals['auth'];
+      const { reason, temporary, durationMinutes } = req.body;
+      const status = temporary ? 'TEMPORARY_BLOCKED' : 'BLOCKED';
+
+      if (id === auth.userId) {
+        ResponseUtil.forbidden(res, 'You cannot block your own account');
+        return;
+      }
+
+      const user = await User.findById(id);
+      if (!user) {
+        ResponseUtil.notFound(res, 'User not found');
+        return;
+      }
+      if (user.role !== 'USER' && !isSignedInAdmin(res)) {
+        ResponseUtil.forbidden(res, 'Only an admin can block staff accounts');
+        return;
+      }
+      if (user.status === 'DELETED') {
+        ResponseUtil.conflict(res, 'Deleted accounts cannot be blocked');
+        return;
+      }
+      if (user.status === status) {
+        ResponseUtil.conflict(res, 'User is already blocked');
+        return;
+      }
+
+      if (temporary) {
+        user.blockTemporarily(durationMinutes * 60 * 1000);
+      } else {
+        user.status = status;
+        user.blockedAt = new Date();
+        user.set('blockedUntil', undefined);
+      }
+      user.blockReason = reason;
+      await user.save();
+      await TokenService.revokeAllForUser(String(user._id));
+
+      await AuditService.record(
+        {
+          action: 'user.block',
+          actorId: auth.userId,
+          subjectId: String(user._id),
+          details: { status, reason, blockedUntil: user.blockedUntil },
+        },
+        req
+      );
+      loggerUtils.logAuth(
+        'blocked',
+        String(user._id),
+        user.email,
+        req.ip,
+        true,
+        { actorId: auth.userId }
+      );
+      ResponseUtil.success(res, { user }, 'User blocked successfully');
+    } catch (error) {
+      logger.error('Failed to block user', error);
+      ResponseUtil.error(res, 'Failed to block user');
+    }
+  }
+
+  /**
+   * Unblock a blocked or temporarily blocked user
+   * @route POST /api/v1/admin/users/:id/unblock
+   */
+  public static async unblockUser(req: Request, res: Response): Promise<void> {
+    try {
+      const id = req.params['id'];
+      const auth: JWTPayload = res.locals['auth'];
+
+      const user = await User.findById(id);
+      if (!user) {
+        ResponseUtil.notFound(res, 'User not found');
+        return;
+      }
+      if (user.role !== 'USER' && !isSignedInAdmin(res)) {
+        ResponseUtil.forbidden(res, 'Only an admin can unblock staff accounts');
+        return;
+      }
+      if (user.status !== 'BLOCKED' && user.status !== 'TEMPORARY_BLOCKED') {
+        ResponseUtil.conflict(res, 'User is not blocked');
+        return;
+      }
+
+      const previousStatus = user.status;
+      user.status = 'ACTIVE';
+      user.set('blockedAt', undefined);
+      user.set('blockedUntil', undefined);
+      user.set('blockReason', undefined);
+      await user.save();
+
+      await AuditService.record(
+        {
+          action: 'user.unblock',
+          actorId: auth.userId,
+          subjectId: String(user._id),
+          details: { from: previousStatus },
+        },
+        req
+      );
+      loggerUtils.logAuth(
+        'unblocked',
+        String(user._id),
+        user.email,
+        req.ip,
+        true,
+        { actorId: auth.userId }
+      );
+      ResponseUtil.success(res, { user }, 'User unblocked successfully');
+    } catch (error) {
+      logger.error('Failed to unblock user', error);
+      ResponseUtil.error(res, 'Failed to unblock user');
+    }
+  }
+
+  /**
+   * Force a user to reset their password on next login
+   * @route POST /api/v1/admin/users/:id/force-password-reset
+   */
+  public static async forcePasswordReset(
+    req: Request,
+    res: Response
+  ): Promise<void> {
+    try {
+      const id = req.params['id'];
+      const auth: JWTPayload = res.locals['auth'];
+
+      const user = await User.findById(id);
+      if (!user) {
+        ResponseUtil.notFound(res, 'User not found');
+        return;
+      }
+      if (user.role !== 'USER' && !isSignedInAdmin(res)) {
+        ResponseUtil.forbidden(
+          res,
+          'Only an admin can force a password reset on staff accounts'
+        );
+        return;
+      }
+      if (['BLOCKED', 'TEMPORARY_BLOCKED', 'DELETED'].includes(user.status)) {
+        ResponseUtil.conflict(
+          res,
+          'Blocked or deleted users cannot be forced to reset'
+        );
+        return;
+      }
+
+      const previousStatus = user.status;
+      user.status = 'NEED_PASSWORD_RESET';
+      await user.save();
+      await TokenService.revokeAllForUser(user._id.toString());
+
+      await AuditService.record(
+        {
+          action: 'user.force_password_reset',
+          actorId: auth.userId,
+          subjectId: String(user._id),
+          details: { from: previousStatus },
+        },
+        req
+      );
+
+      loggerUtils.logAuth(
+        'password_reset_forced',
+        user._id.toString(),
+        user.email,
+        req.ip,
+        true,
+        { actorId: auth.userId }
+      );
+      ResponseUtil.success(
+        res,
+        { user },
+        'User must reset their password on next login'
+      );
+    } catch (error) {
+      logger.error('Failed to force password reset', error);
+      ResponseUtil.error(res, 'Failed to force password reset');
+    }
+  }
+
+  /**
+   * List the active sessions of a user
+   * @route GET /api/v1/admin/users/:id/sessions
+   */
+  public static async listUserSessions(
+    req: Request,
+    res: Response
+  ): Promise<void> {
+    try {
+      const id = req.params['id'];
+
+      const user = await User.findById(id);
+      if (!user) {
+        ResponseUtil.notFound(res, 'User not found');
+        return;
+      }
+
+      const sessions = await TokenService.listSessions(user._id.toString());
+      ResponseUtil.success(
+        res,
+        { sessions },
+        'Sessions retrieved successfully'
+      );
+    } catch (error) {
+      logger.error('Failed to retrieve sessions', error);
+      ResponseUtil.error(res, 'Failed to retrieve sessions');
+    }
+  }
+
+  /**
+   * Revoke one session of a user
+   * @route DELETE /api/v1/admin/users/:id/sessions/:sessionId
+   */
+  public static async revokeUserSession(
+    req: Request,
+    res: Response
+  ): Promise<void> {
+    try {
+      const id = req.params['id'] as string;
+      const sessionId = req.params['sessionId'] as string;
+      const auth: JWTPayload = res.locals['auth'];
+
+      const revoked = await TokenService.revokeSession(id, sessionId);
+      if (!revoked) {
+        ResponseUtil.notFound(res, 'Session not found');
+        return;
+      }
+
+      loggerUtils.logAuth('session_revoked', id, undefined, req.ip, true, {
+        actorId: auth.userId,
+        sessionId,
+      });
+      ResponseUtil.success(res, null, 'Session revoked successfully');
+    } catch (error) {
+      logger.error('Failed to revoke session', error);
+      ResponseUtil.error(res, 'Failed to revoke session');
+    }
+  }
+
+  /**
+   * Issue a short-lived access token to act as a rider
+   * The token carries the rider as userId and the staff member as actorId;
+   * no refresh token is issued.
+   * @route POST /api/v1/admin/users/:id/impersonate
+   */
+  public static async impersonateUser(
+    req: Request,
+    res: Response
+  ): Promise<void> {
+    try {
+      const id = req.params['id'];
+      const auth: JWTPayload = res.locals['auth'];
+      const { reason } = req.body;
+
+      if (res.locals['apiKey'] || auth.actorId) {
+        ResponseUtil.forbidden(
+          res,
+          'Impersonation must be started by a signed-in staff member'
+        );
+        return;
+      }
+
+      const user = await User.findById(id);
+      if (!user) {
+        ResponseUtil.notFound(res, 'User not found');
+        return;
+      }
+      if (user.role !== 'USER') {
+        ResponseUtil.forbidden(res, 'Only riders can be impersonated');
+        return;
+      }
+      if (user.status !== 'ACTIVE') {
+        ResponseUtil.conflict(res, 'Only active users can be impersonated');
+        return;
+      }
+
+      const userId = String(user._id);
+      const accessToken = jwtManager.generateAccessToken(
+        { userId, role: user.role, actorId: auth.userId },
+        config.security.impersonationTokenExpiry
+      );
+      const expiresAt = jwtManager.getTokenExpirationTime(accessToken);
+
+      await AuditService.record(
+        {
+          action: 'impersonation.start',
+          actorId: auth.userId,
+          subjectId: userId,
+          details: { reason, expiresAt },
+        },
+        req
+      );
+      loggerUtils.logAuth(
+        'impersonation_started',
+        userId,
+        user.email,
+        req.ip,
+        true,
+        { actorId: auth.userId }
+      );
+      ResponseUtil.success(
+        res,
+        { user, accessToken, expiresAt },
+        'Impersonation token issued'
+      );
+    } catch (error) {
+      logger.error('Failed to impersonate user', error);
+      ResponseUtil.error(res, 'Failed to impersonate user');
+    }
+  }
+}
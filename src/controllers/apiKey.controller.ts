@@ -0,0 +1,144 @@
+import { Request, Response } from 'express';
+import { JWTPayload } from '@/config';
+import ApiKey from '@/models/ApiKey.model';
+import User from '@/models/User.model';
+import { ApiKeyService } from '@/services/apiKey.service';
+import { PolicyService } from '@/services/policy.service';
+import { logger, loggerUtils } from '@/utils/logger';
+import { ResponseUtil } from '@/utils/response';
+
+/**
+ * API Key Controller
+ * Handles API keys for partner integrations and internal jobs
+ */
+export class ApiKeyController {
+  /**
+   * Create an API key; the plain key is only returned in this response
+   * @route POST /api/v1/admin/api-keys
+   */
+  public static async createApiKey(req: Request, res: Response): Promise<void> {
+    try {
+      const auth: JWTPayload = res.locals['auth'];
+      const { name, ownerId, scopes, expiresAt, rateLimit } = req.body;
+
+      const owner = await User.findById(ownerId || auth.userId);
+      if (!owner) {
+        ResponseUtil.notFound(res, 'Owner not found');
+        return;
+      }
+
+      const unknown = await PolicyService.findUnknownPermissions(scopes);
+      if (unknown.length > 0) {
+        ResponseUtil.badRequest(res, `Unknown scopes: ${unknown.join(', ')}`);
+        return;
+      }
+
+      // A key can carry neither more than its creator nor its owner holds
+      const notHeld = await PolicyService.findUncoveredGrants(
+        res.locals['apiKey'] || res.locals['user'],
+        scopes
+      );
+      if (notHeld.length > 0) {
+        ResponseUtil.forbidden(
+          res,
+          `You cannot grant scopes you do not hold: ${notHeld.join(', ')}`
+        );
+        return;
+      }
+      const notHeldByOwner = await PolicyService.findUncoveredGrants(
+        owner,
+        scopes
+      );
+      if (notHeldByOwner.length > 0) {
+        ResponseUtil.badRequest(
+          res,
+          `The owner does not hold these scopes: ${notHeldByOwner.join(', ')}`
+        );
+        return;
+      }
+
+      const { key, prefix, keyHash } = ApiKeyService.generate();
+      const apiKey = await new ApiKey({
+        name,
+        prefix,
+        keyHash,
+        owner: owner._id,
+        createdBy: auth.userId,
+        scopes,
+        expiresAt,
+        rateLimit,
+      }).save();
+
+      loggerUtils.logAuth(
+        'api_key_created',
+        auth.userId,
+        undefined,
+        req.ip,
+        true,
+        { apiKeyId: String(apiKey._id) }
+      );
+      ResponseUtil.created(
+        res,
+        { apiKey, key },
+        'API key created. Store the key now, it will not be shown again.'
+      );
+    } catch (error) {
+      logger.error('Failed to create API key', error);
+      ResponseUtil.error(res, 'Failed to create API key');
+    }
+  }
+
+  /**
+   * List API keys, optionally for one owner
+   * @route GET /api/v1/admin/api-keys
+   */
+  public static async listApiKeys(req: Request, res: Response): Promise<void> {
+    try {
+      const ownerId = req.query['ownerId'];
+      const filter = ownerId ? { owner: ownerId } : {};
+
+      const apiKeys = await ApiKey.find(filter).sort({ createdAt: -1 });
+      ResponseUtil.success(res, { apiKeys }, 'API keys retrieved successfully');
+    } catch (error) {
+      logger.error('Failed to retrieve API keys', error);
+      ResponseUtil.error(res, 'Failed to retrieve API keys');
+    }
+  }
+
+  /**
+   * Revoke an API key
+   * @route DELETE /api/v1/admin/api-keys/:id
+   */
+  public static async revokeApiKey(req: Request, res: Response): Promise<void> {
+    try {
+      const id = req.params['id'];
+      const auth: JWTPayload = res.locals['auth'];
+
+      const apiKey = await ApiKey.findById(id);
+      if (!apiKey) {
+        ResponseUtil.notFound(res, 'API key not found');
+        return;
+      }
+      if (apiKey.revokedAt) {
+        ResponseUtil.conflict(res, 'API key is already revoked');
+        return;
+      }
+
+      apiKey.revokedAt = new Date();
+      await apiKey.save();
+
+      loggerUtils.logAuth(
+        'api_key_revoked',
+        auth.userId,
+        undefined,
+        req.ip,
+        true,
+        { apiKeyId: String(apiKey._id) }
+      );
+      ResponseUtil.success(res, { apiKey }, 'API key revoked successfully');
+    } catch (error) {
+      logger.error('Failed to revoke API key', error);
+      ResponseUtil.error(res, 'Failed to revoke API key');
+    }
+  }
+}
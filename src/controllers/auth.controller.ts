@@ -1,10 +1,36 @@
-import { Request, Response } from 'express';
+import { NextFunction, Request, RequestHandler, Response } from 'express';
 import { ResponseUtil, logger } from '@/utils';
-import User from '@/models/User.model';
-import { emailManager, generateTokens } from '@/config';
+import { HttpStatusCode } from '@/types/api';
+import { loggerUtils } from '@/utils/logger';
+import User, { UserDocument } from '@/models/User.model';
+import { OtpPurpose } from '@/types/models';
+import {
+  JWTPayload,
+  MFA_SETUP_PURPOSE,
+  OAUTH_LINK_COOKIE,
+  OAUTH_LOGIN_COOKIE,
+  OAUTH_LOGIN_EXPIRY_SECONDS,
+  OAuthLinkRequiredError,
+  OAuthProvider,
+  TokenPair,
+  config,
+  emailManager,
+  jwtManager,
+  passport,
+  passportManager,
+  smsManager,
+} from '@/config';
+import { inactiveStatusMessages } from '@/middleware/auth.middleware';
+import { BlockExpiryService } from '@/services/blockExpiry.service';
+import { LoginAlertService } from '@/services/loginAlert.service';
+import { LoginAttemptService } from '@/services/loginAttempt.service';
+import { MagicLinkService } from '@/services/magicLink.service';
+import { MfaTokenService } from '@/services/mfaToken.service';
+import { SessionService } from '@/services/session.service';
+import { TokenService } from '@/services/token.service';
 
 export class AuthController {
-  static async signup(req: Request, res: Response) {
+  static async signup(req: Request, res: Response): Promise<Response> {
     try {
       const { firstName, lastName, email, phone, password } = req.body;
       const userAlreadyExists = await User.findOne({
@@ -35,6 +61,12 @@ export class AuthController {
         otp.code
       );
       if (!isEmailSent) {
+        // Without the code the account cannot be verified; remove it so the
+        // user can sign up again
+        await User.deleteOne({
+          _id: user._id,
+          status: 'NEED_EMAIL_VERIFICATION',
+        });
         logger.error('Unable to send the verification email', {
           email,
         });
@@ -42,7 +74,6 @@ export class AuthController {
       }
       logger.info('OTP sent to email', {
         email,
-        otp: otp.code,
       });
       return ResponseUtil.success(res, { email }, 'OTP sent to email');
     } catch (error) {
@@ -52,7 +83,7 @@ export class AuthController {
     }
   }
 
-  static async verifyEmail(req: Request, res: Response) {
+  static async verifyEmail(req: Request, res: Response): Promise<Response> {
     try {
       const { email, otp } = req.body;
       const user = await User.findOne({
@@ -65,14 +96,23 @@ export class AuthController {
         });
         return ResponseUtil.error(res, 'User not found', 400);
       }
+      if (user.isOTPLocked()) {
+        return ResponseUtil.rateLimitExceeded(
+          res,
+          'Too many invalid attempts. Please request a new code later.'
+        );
+      }
       const isOTPValid = user.isOTPValid(otp);
       if (!isOTPValid) {
+        // persist the failed attempt counter
+        await user.save();
         logger.error('Invalid OTP', {
           email,
         });
         return ResponseUtil.error(res, 'Invalid OTP', 400);
       }
       user.status = 'ACTIVE';
+      user.set('otp', undefined);
       await user.save();
       // send welcome email
       const isEmailSent = await emailManager.sendWelcomeEmail(
@@ -85,14 +125,12 @@ export class AuthController {
         });
         return ResponseUtil.error(res, 'Welcome email failed', 400);
       }
-      const { accessToken, refreshToken } = generateTokens({
-        userId: user._id.toString(),
-        role: user.role,
-      });
+      const { accessToken, refreshToken } = await TokenService.issueTokenPair(
+        { userId: user._id.toString(), role: user.role },
+        SessionService.clientFromRequest(req)
+      );
       logger.info('Email verified', {
         email,
-        accessToken,
-        refreshToken,
       });
       return ResponseUtil.success(
         res,
@@ -104,4 +142,931 @@ export class AuthController {
       return ResponseUtil.error(res, 'Email verification failed');
     }
   }
+
+  static async login(req: Request, res: Response): Promise<Response> {
+    try {
+      const { email, phone, password } = req.body;
+      const ip = req.ip || 'unknown';
+      const invalidCredentials = email
+        ? 'Invalid email or password'
+        : 'Invalid phone number or password';
+
+      if (await LoginAttemptService.isIpLocked(ip)) {
+        loggerUtils.logAuth('login_ip_locked', undefined, email, ip, false);
+        return ResponseUtil.rateLimitExceeded(
+          res,
+          'Too many failed login attempts. Please try again later.'
+        );
+      }
+
+      const user = await User.findOne(email ? { email } : { phone });
+      if (!user) {
+        await LoginAttemptService.recordIpFailure(ip);
+        loggerUtils.logAuth('login', undefined, email, ip, false);
+        return ResponseUtil.unauthorized(res, invalidCredentials);
+      }
+      const userId = user._id.toString();
+
+      if (user.status === 'BLOCKED') {
+        loggerUtils.logAuth('login_blocked', userId, email, ip, false);
+        return ResponseUtil.forbidden(res, 'Your account has been blocked');
+      }
+
+      const blockedUntil = await AuthController.getActiveBlock(user);
+      if (blockedUntil) {
+        loggerUtils.logAuth('login_locked', userId, email, ip, false);
+        return ResponseUtil.accountLocked(
+          res,
+          'Your account is temporarily locked.',
+          blockedUntil
+        );
+      }
+
+      const isPasswordValid = await user.comparePassword(password);
+      if (!isPasswordValid) {
+        await LoginAttemptService.recordIpFailure(ip);
+        const shouldLock = await LoginAttemptService.recordUserFailure(userId);
+        loggerUtils.logAuth('login', userId, email, ip, false);
+
+        if (shouldLock) {
+          const lockedUntil = user.blockTemporarily();
+          await user.save();
+          await LoginAttemptService.resetUser(userId);
+          logger.warn('Account temporarily locked after failed logins', {
+            userId,
+            ip,
+          });
+          return ResponseUtil.accountLocked(
+            res,
+            'Too many failed login attempts. Your account is temporarily locked.',
+            lockedUntil
+          );
+        }
+        return ResponseUtil.unauthorized(res, invalidCredentials);
+      }
+
+      if (user.status === 'NEED_EMAIL_VERIFICATION') {
+        return ResponseUtil.forbidden(
+          res,
+          'Please verify your email before logging in'
+        );
+      }
+
+      if (user.status === 'NEED_PASSWORD_RESET') {
+        await AuthController.sendPasswordReset(user);
+        loggerUtils.logAuth('login_password_reset_required', userId, email, ip);
+        return ResponseUtil.forbidden(
+          res,
+          user.email
+            ? 'You must reset your password. A reset link has been sent to your email.'
+            : 'You must reset your password. A reset code has been sent to your phone.'
+        );
+      }
+
+      // No token pair for accounts that authenticate would reject anyway
+      if (user.status !== 'ACTIVE') {
+        loggerUtils.logAuth('login_inactive', userId, email, ip, false, {
+          status: user.status,
+        });
+        return ResponseUtil.forbidden(res, inactiveStatusMessages[user.status]);
+      }
+
+      await LoginAttemptService.resetUser(userId);
+      const result = await AuthController.completeLogin(req, user);
+      if ('mfaToken' in result) {
+        loggerUtils.logAuth('login_mfa_pending', userId, email, ip);
+        return ResponseUtil.success(
+          res,
+          result,
+          'mfaRequired' in result
+            ? 'Two-factor authentication code required'
+            : 'Two-factor authentication must be set up before logging in'
+        );
+      }
+      loggerUtils.logAuth('login', userId, email, ip);
+      return ResponseUtil.success(res, { user, ...result }, 'Login successful');
+    } catch (error) {
+      logger.error('Login failed', error);
+      return ResponseUtil.error(res, 'Login failed');
+    }
+  }
+
+  static async refresh(req: Request, res: Response): Promise<Response> {
+    try {
+      const { refreshToken } = req.body;
+      const ip = req.ip || 'unknown';
+
+      const payload = await TokenService.consumeRefreshToken(refreshToken, ip);
+      if (!payload || !payload.familyId) {
+        return ResponseUtil.unauthorized(res, 'Invalid refresh token');
+      }
+
+      const user = await User.findById(payload.userId);
+      if (!user || user.status !== 'ACTIVE') {
+        await TokenService.revokeFamily(payload.familyId);
+        loggerUtils.logAuth('refresh', payload.userId, undefined, ip, false);
+        return ResponseUtil.unauthorized(res, 'Invalid refresh token');
+      }
+
+      const tokens = await TokenService.issueTokenPair(
+        { userId: payload.userId, role: user.role },
+        SessionService.clientFromRequest(req),
+        payload.familyId
+      );
+      loggerUtils.logAuth('refresh', payload.userId, undefined, ip);
+      return ResponseUtil.success(res, tokens, 'Token refreshed successfully');
+    } catch (error) {
+      logger.error('Token refresh failed', error);
+      return ResponseUtil.error(res, 'Token refresh failed');
+    }
+  }
+
+  static async logout(req: Request, res: Response): Promise<Response> {
+    try {
+      const auth: JWTPayload = res.locals['auth'];
+      await TokenService.revokeAccessToken(auth);
+      if (auth.familyId) {
+        await TokenService.revokeFamily(auth.familyId);
+      }
+      loggerUtils.logAuth('logout', auth.userId, undefined, req.ip);
+      return ResponseUtil.success(res, null, 'Logged out successfully');
+    } catch (error) {
+      logger.error('Logout failed', error);
+      return ResponseUtil.error(res, 'Logout failed');
+    }
+  }
+
+  static async logoutAll(req: Request, res: Response): Promise<Response> {
+    try {
+      const auth: JWTPayload = res.locals['auth'];
+      await TokenService.revokeAllForUser(auth.userId);
+      loggerUtils.logAuth('logout_all', auth.userId, undefined, req.ip);
+      return ResponseUtil.success(
+        res,
+        null,
+        'Logged out from all devices successfully'
+      );
+    } catch (error) {
+      logger.error('Logout from all devices failed', error);
+      return ResponseUtil.error(res, 'Logout from all devices failed');
+    }
+  }
+
+  static async forgotPassword(req: Request, res: Response): Promise<Response> {
+    try {
+      const { email, phone } = req.body;
+      const user = await User.findOne(email ? { email } : { phone });
+
+      // Always answer the same way so the endpoint cannot be used to
+      // discover which emails and phone numbers are registered
+      if (user && user.status !== 'BLOCKED') {
+        if (email) {
+          await AuthController.sendPasswordReset(user);
+        } else {
+          await AuthController.sendPhoneCode(user, 'PASSWORD_RESET');
+        }
+        loggerUtils.logAuth(
+          'password_reset_requested',
+          user._id.toString(),
+          email,
+          req.ip
+        );
+      }
+      return ResponseUtil.success(
+        res,
+        null,
+        email
+          ? 'If an account exists for this email, a reset link has been sent'
+          : 'If an account exists for this phone number, a reset code has been sent'
+      );
+    } catch (error) {
+      logger.error('Forgot password failed', error);
+      return ResponseUtil.error(res, 'Forgot password failed');
+    }
+  }
+
+  static async resetPassword(req: Request, res: Response): Promise<Response> {
+    try {
+      const { token, phone, otp, password } = req.body;
+      let user: UserDocument | null;
+      if (token) {
+        user = await User.findByPasswordResetToken(token);
+        if (!user) {
+          return ResponseUtil.badRequest(res, 'Invalid or expired reset token');
+        }
+      } else {
+        user = await User.findOne({ phone });
+        if (user?.isOTPLocked()) {
+          return ResponseUtil.rateLimitExceeded(
+            res,
+            'Too many invalid attempts. Please request a new code later.'
+          );
+        }
+        if (!user || !user.isOTPValid(otp, 'PASSWORD_RESET')) {
+          // persist the failed attempt counter
+          await user?.save();
+          return ResponseUtil.badRequest(res, 'Invalid or expired reset code');
+        }
+      }
+      if (user.status === 'BLOCKED') {
+        return ResponseUtil.forbidden(res, 'Your account has been blocked');
+      }
+
+      const userId = String(user._id);
+      user.password = password;
+      user.set('passwordReset', undefined);
+      user.set('otp', undefined);
+      if (user.status === 'NEED_PASSWORD_RESET') {
+        user.status = 'ACTIVE';
+      }
+      await user.save();
+
+      await TokenService.revokeAllForUser(userId);
+      await LoginAttemptService.resetUser(userId);
+      loggerUtils.logAuth('password_reset', userId, user.email, req.ip);
+
+      if (user.email) {
+        const isEmailSent = await emailManager.sendPasswordChangeNotification(
+          user.email,
+          `${user.firstName} ${user.lastName}`
+        );
+        if (!isEmailSent) {
+          logger.error('Unable to send the password change notification', {
+            userId,
+          });
+        }
+      }
+
+      return ResponseUtil.success(
+        res,
+        null,
+        'Password has been reset successfully. Please log in again.'
+      );
+    } catch (error) {
+      logger.error('Password reset failed', error);
+      return ResponseUtil.error(res, 'Password reset failed');
+    }
+  }
+
+  static async requestMagicLink(
+    req: Request,
+    res: Response
+  ): Promise<Response> {
+    try {
+      const { email } = req.body;
+      const user = await User.findOne({ email });
+
+      // Always answer the same way so the endpoint cannot be used to
+      // discover which emails are registered
+      if (user && !['BLOCKED', 'NEED_PASSWORD_RESET'].includes(user.status)) {
+        const userId = String(user._id);
+        const token = await MagicLinkService.issue(userId);
+        if (!token) {
+          loggerUtils.logAuth(
+            'magic_link_limited',
+            userId,
+            email,
+            req.ip,
+            false
+          );
+        } else {
+          const loginUrl = `${config.urls.frontend}/auth/magic-link?token=${token}`;
+          const isEmailSent = await emailManager.sendMagicLinkEmail(
+            email,
+            `${user.firstName} ${user.lastName}`,
+            loginUrl,
+            Math.round(MagicLinkService.expirySeconds / 60)
+          );
+          if (!isEmailSent) {
+            logger.error('Unable to send the magic link email', { userId });
+          }
+          loggerUtils.logAuth('magic_link_requested', userId, email, req.ip);
+        }
+      }
+      return ResponseUtil.success(
+        res,
+        null,
+        'If an account exists for this email, a login link has been sent'
+      );
+    } catch (error) {
+      logger.error('Magic link request failed', error);
+      return ResponseUtil.error(res, 'Magic link request failed');
+    }
+  }
+
+  static async magicLinkLogin(req: Request, res: Response): Promise<Response> {
+    try {
+      const { token } = req.body;
+      const ip = req.ip || 'unknown';
+
+      const linkUserId = await MagicLinkService.consume(token);
+      const user = linkUserId ? await User.findById(linkUserId) : null;
+      if (!user) {
+        return ResponseUtil.badRequest(res, 'Invalid or expired login link');
+      }
+      const userId = String(user._id);
+
+      if (user.status === 'BLOCKED') {
+        loggerUtils.logAuth('magic_link_login', userId, user.email, ip, false);
+        return ResponseUtil.forbidden(res, 'Your account has been blocked');
+      }
+      const blockedUntil = await AuthController.getActiveBlock(user);
+      if (blockedUntil) {
+        loggerUtils.logAuth('magic_link_login', userId, user.email, ip, false);
+        return ResponseUtil.accountLocked(
+          res,
+          'Your account is temporarily locked.',
+          blockedUntil
+        );
+      }
+      if (user.status === 'NEED_PASSWORD_RESET') {
+        return ResponseUtil.forbidden(res, 'You must reset your password');
+      }
+      if (user.status === 'NEED_PHONE_VERIFICATION') {
+        return ResponseUtil.forbidden(res, 'Please verify your phone number');
+      }
+      if (user.status === 'NEED_EMAIL_VERIFICATION') {
+        // Opening the emailed link proves ownership of the address
+        user.status = 'ACTIVE';
+        user.set('otp', undefined);
+        await user.save();
+      }
+
+      const result = await AuthController.completeLogin(req, user);
+      if ('mfaToken' in result) {
+        loggerUtils.logAuth('magic_link_mfa_pending', userId, user.email, ip);
+        return ResponseUtil.success(
+          res,
+          result,
+          'mfaRequired' in result
+            ? 'Two-factor authentication code required'
+            : 'Two-factor authentication must be set up before logging in'
+        );
+      }
+      loggerUtils.logAuth('magic_link_login', userId, user.email, ip);
+      return ResponseUtil.success(res, { user, ...result }, 'Login successful');
+    } catch (error) {
+      logger.error('Magic link login failed', error);
+      return ResponseUtil.error(res, 'Magic link login failed');
+    }
+  }
+
+  static async secureAccount(req: Request, res: Response): Promise<Response> {
+    try {
+      const { token } = req.body;
+
+      const alert = await LoginAlertService.consume(token);
+      const user = alert ? await User.findById(alert.userId) : null;
+      if (!alert || !user) {
+        return ResponseUtil.badRequest(res, 'Invalid or expired link');
+      }
+      const userId = String(user._id);
+
+      // Sign out everywhere and require a new password before the next login
+      LoginAlertService.forget(user, alert);
+      if (!['BLOCKED', 'DELETED'].includes(user.status)) {
+        user.status = 'NEED_PASSWORD_RESET';
+      }
+      await user.save();
+      await TokenService.revokeAllForUser(userId);
+      if (user.status === 'NEED_PASSWORD_RESET') {
+        await AuthController.sendPasswordReset(user);
+      }
+
+      loggerUtils.logAuth('login_alert_denied', userId, user.email, req.ip);
+      return ResponseUtil.success(
+        res,
+        null,
+        'All devices have been signed out. Check your email to set a new password.'
+      );
+    } catch (error) {
+      logger.error('Securing account failed', error);
+      return ResponseUtil.error(res, 'Securing account failed');
+    }
+  }
+
+  /**
+   * Check a TEMPORARY_BLOCKED account, releasing it once the block has ended
+   * @returns when the block ends, or null when the account is not blocked
+   */
+  private static async getActiveBlock(
+    user: UserDocument
+  ): Promise<Date | null> {
+    const blockedUntil = user.getBlockedUntil();
+    if (!blockedUntil) {
+      return null;
+    }
+    if (blockedUntil > new Date()) {
+      return blockedUntil;
+    }
+
+    // Release through the same path as the scheduled job; when another request
+    // got there first, pick up whatever state it left behind
+    const current =
+      (await BlockExpiryService.release(user)) ||
+      (await User.findById(user._id));
+    if (!current) {
+      return null;
+    }
+    for (const field of [
+      'status',
+      'blockedAt',
+      'blockedUntil',
+      'blockReason',
+    ]) {
+      user.set(field, current.get(field));
+    }
+    const currentUntil = current.getBlockedUntil();
+    return currentUntil && currentUntil > new Date() ? currentUntil : null;
+  }
+
+  /**
+   * Finish a login once the first factor has been checked
+   * Issues a token pair, or a short-lived mfa token when the user still has to
+   * enter a 2FA code or, if their role requires it, set up 2FA first.
+   */
+  private static async completeLogin(
+    req: Request,
+    user: UserDocument
+  ): Promise<
+    | TokenPair
+    | { mfaRequired: true; mfaToken: string }
+    | { mfaSetupRequired: true; mfaToken: string }
+  > {
+    const userId = String(user._id);
+
+    if (user.twoFactor?.enabled) {
+      const mfaToken = await MfaTokenService.issue(userId);
+      return { mfaRequired: true, mfaToken };
+    }
+
+    if (user.isTwoFactorRequired()) {
+      const mfaToken = jwtManager.generateActionToken(
+        { userId },
+        MFA_SETUP_PURPOSE,
+        config.security.mfaTokenExpiry
+      );
+      return { mfaSetupRequired: true, mfaToken };
+    }
+
+    const client = SessionService.clientFromRequest(req);
+    await LoginAlertService.recordLogin(user, client);
+    return await TokenService.issueTokenPair(
+      { userId, role: user.role },
+      client
+    );
+  }
+
+  /**
+   * Send a password reset link by email, or a reset code to accounts that
+   * only have a phone number
+   */
+  private static async sendPasswordReset(user: UserDocument): Promise<void> {
+    if (!user.email) {
+      await AuthController.sendPhoneCode(user, 'PASSWORD_RESET');
+      return;
+    }
+    const token = user.generatePasswordResetToken();
+    await user.save();
+
+    const resetUrl = `${config.urls.frontend}/reset-password?token=${token}`;
+    const isEmailSent = await emailManager.sendPasswordResetEmail(
+      user.email,
+      `${user.firstName} ${user.lastName}`,
+      resetUrl
+    );
+    if (!isEmailSent) {
+      logger.error('Unable to send the password reset email', {
+        userId: String(user._id),
+      });
+    }
+  }
+
+  /**
+   * Text a login or password reset code to a verified phone number
+   * Nothing is sent while codes are locked or the resend cooldown runs, and
+   * numbers awaiting verification keep their verification code.
+   */
+  private static async sendPhoneCode(
+    user: UserDocument,
+    purpose: OtpPurpose
+  ): Promise<void> {
+    if (
+      !user.phone ||
+      !user.isPhoneVerified() ||
+      user.isOTPLocked() ||
+      user.getOTPResendCooldown() > 0
+    ) {
+      return;
+    }
+    const otp = user.generateOTP(purpose);
+    await user.save();
+
+    const isSmsSent = await smsManager.sendVerificationCode(
+      user.phone,
+      otp.code
+    );
+    if (!isSmsSent) {
+      logger.error('Unable to send the SMS code', {
+        userId: String(user._id),
+        purpose,
+      });
+    }
+  }
+
+  static async phoneSignup(req: Request, res: Response): Promise<Response> {
+    try {
+      const { firstName, lastName, phone, password } = req.body;
+      const userAlreadyExists = await User.findOne({ phone });
+      if (userAlreadyExists) {
+        logger.error('User already exists', {
+          phone,
+        });
+        return ResponseUtil.error(res, 'User already exists', 400);
+      }
+      const user = new User({
+        firstName,
+        lastName,
+        phone,
+        password,
+        signupMethod: 'PHONE',
+        status: 'NEED_PHONE_VERIFICATION',
+      });
+      const otp = user.generateOTP();
+      // Store the account only once the code is out, so a failed SMS does not
+      // leave behind an account that cannot be verified or signed up again
+      await user.validate();
+      const isSmsSent = await smsManager.sendVerificationCode(phone, otp.code);
+      if (!isSmsSent) {
+        logger.error('Unable to send the verification SMS', {
+          phone,
+        });
+        return ResponseUtil.error(res, 'Phone verification failed', 400);
+      }
+      await user.save();
+      logger.info('OTP sent to phone', {
+        phone,
+      });
+      return ResponseUtil.success(res, { phone }, 'OTP sent to phone');
+    } catch (error) {
+      logger.error('Phone signup failed', error);
+      return ResponseUtil.error(res, 'Phone signup failed');
+    }
+  }
+
+  static async verifyPhone(req: Request, res: Response): Promise<Response> {
+    try {
+      const { phone, otp } = req.body;
+      const user = await User.findOne({
+        phone,
+        status: 'NEED_PHONE_VERIFICATION',
+      });
+      if (!user) {
+        logger.error('User not found', {
+          phone,
+        });
+        return ResponseUtil.error(res, 'User not found', 400);
+      }
+      if (user.isOTPLocked()) {
+        return ResponseUtil.rateLimitExceeded(
+          res,
+          'Too many invalid attempts. Please request a new code later.'
+        );
+      }
+      const isOTPValid = user.isOTPValid(otp);
+      if (!isOTPValid) {
+        // persist the failed attempt counter
+        await user.save();
+        logger.error('Invalid OTP', {
+          phone,
+        });
+        return ResponseUtil.error(res, 'Invalid OTP', 400);
+      }
+      user.status = 'ACTIVE';
+      user.phoneVerifiedAt = new Date();
+      user.set('otp', undefined);
+      await user.save();
+      loggerUtils.logAuth(
+        'phone_verified',
+        user._id.toString(),
+        undefined,
+        req.ip
+      );
+
+      // Existing accounts re-verify after a phone change, so 2FA still applies
+      const result = await AuthController.completeLogin(req, user);
+      if ('mfaToken' in result) {
+        return ResponseUtil.success(
+          res,
+          result,
+          'mfaRequired' in result
+            ? 'Phone verified. Two-factor authentication code required'
+            : 'Phone verified. Two-factor authentication must be set up before logging in'
+        );
+      }
+      return ResponseUtil.success(
+        res,
+        { user, ...result },
+        'Phone verification successful! Welcome to Glyde'
+      );
+    } catch (error) {
+      logger.error('Phone verification failed', error);
+      return ResponseUtil.error(res, 'Phone verification failed');
+    }
+  }
+
+  static async resendOtp(req: Request, res: Response): Promise<Response> {
+    try {
+      const { email, phone } = req.body;
+      const user = email
+        ? await User.findOne({ email, status: 'NEED_EMAIL_VERIFICATION' })
+        : await User.findOne({ phone, status: 'NEED_PHONE_VERIFICATION' });
+      if (!user) {
+        logger.error('User not found', {
+          email,
+          phone,
+        });
+        return ResponseUtil.error(res, 'User not found', 400);
+      }
+
+      if (user.isOTPLocked()) {
+        return ResponseUtil.rateLimitExceeded(
+          res,
+          'Too many invalid attempts. Please request a new code later.'
+        );
+      }
+      const cooldown = user.getOTPResendCooldown();
+      if (cooldown > 0) {
+        return ResponseUtil.rateLimitExceeded(
+          res,
+          `Please wait ${Math.ceil(cooldown / 1000)} seconds before requesting a new code`
+        );
+      }
+
+      const otp = user.generateOTP();
+      await user.save();
+      const isSent = email
+        ? await emailManager.sendEmailVerification(
+            email,
+            `${user.firstName} ${user.lastName}`,
+            otp.code
+          )
+        : await smsManager.sendVerificationCode(phone, otp.code);
+      if (!isSent) {
+        logger.error('Unable to resend the verification code', {
+          email,
+          phone,
+        });
+        return ResponseUtil.error(res, 'Unable to send verification code', 400);
+      }
+      loggerUtils.logAuth('otp_resent', user._id.toString(), email, req.ip);
+      return ResponseUtil.success(
+        res,
+        email ? { email } : { phone },
+        'A new verification code has been sent'
+      );
+    } catch (error) {
+      logger.error('Resend OTP failed', error);
+      return ResponseUtil.error(res, 'Resend OTP failed');
+    }
+  }
+
+  static async requestPhoneLogin(
+    req: Request,
+    res: Response
+  ): Promise<Response> {
+    try {
+      const { phone } = req.body;
+      const user = await User.findOne({ phone });
+
+      // Always answer the same way so the endpoint cannot be used to
+      // discover which phone numbers are registered
+      if (user && !['BLOCKED', 'NEED_PASSWORD_RESET'].includes(user.status)) {
+        await AuthController.sendPhoneCode(user, 'LOGIN');
+        loggerUtils.logAuth(
+          'phone_login_requested',
+          String(user._id),
+          undefined,
+          req.ip
+        );
+      }
+      return ResponseUtil.success(
+        res,
+        null,
+        'If an account exists for this phone number, a login code has been sent'
+      );
+    } catch (error) {
+      logger.error('Phone login request failed', error);
+      return ResponseUtil.error(res, 'Phone login request failed');
+    }
+  }
+
+  static async phoneLogin(req: Request, res: Response): Promise<Response> {
+    try {
+      const { phone, otp } = req.body;
+      const ip = req.ip || 'unknown';
+
+      if (await LoginAttemptService.isIpLocked(ip)) {
+        loggerUtils.logAuth(
+          'phone_login_ip_locked',
+          undefined,
+          undefined,
+          ip,
+          false
+        );
+        return ResponseUtil.rateLimitExceeded(
+          res,
+          'Too many failed login attempts. Please try again later.'
+        );
+      }
+
+      const user = await User.findOne({ phone });
+      if (user?.isOTPLocked()) {
+        return ResponseUtil.rateLimitExceeded(
+          res,
+          'Too many invalid attempts. Please request a new code later.'
+        );
+      }
+      if (!user || !user.isOTPValid(otp, 'LOGIN')) {
+        // persist the failed attempt counter
+        await user?.save();
+        await LoginAttemptService.recordIpFailure(ip);
+        loggerUtils.logAuth(
+          'phone_login',
+          user ? String(user._id) : undefined,
+          undefined,
+          ip,
+          false
+        );
+        return ResponseUtil.unauthorized(res, 'Invalid or expired login code');
+      }
+      const userId = String(user._id);
+      user.set('otp', undefined);
+      await user.save();
+
+      if (user.status === 'BLOCKED') {
+        loggerUtils.logAuth('phone_login', userId, undefined, ip, false);
+        return ResponseUtil.forbidden(res, 'Your account has been blocked');
+      }
+      const blockedUntil = await AuthController.getActiveBlock(user);
+      if (blockedUntil) {
+        loggerUtils.logAuth('phone_login', userId, undefined, ip, false);
+        return ResponseUtil.accountLocked(
+          res,
+          'Your account is temporarily locked.',
+          blockedUntil
+        );
+      }
+      if (user.status !== 'ACTIVE') {
+        loggerUtils.logAuth('phone_login', userId, undefined, ip, false, {
+          status: user.status,
+        });
+        return ResponseUtil.forbidden(res, inactiveStatusMessages[user.status]);
+      }
+
+      await LoginAttemptService.resetUser(userId);
+      const result = await AuthController.completeLogin(req, user);
+      if ('mfaToken' in result) {
+        loggerUtils.logAuth('phone_login_mfa_pending', userId, undefined, ip);
+        return ResponseUtil.success(
+          res,
+          result,
+          'mfaRequired' in result
+            ? 'Two-factor authentication code required'
+            : 'Two-factor authentication must be set up before logging in'
+        );
+      }
+      loggerUtils.logAuth('phone_login', userId, undefined, ip);
+      return ResponseUtil.success(res, { user, ...result }, 'Login successful');
+    } catch (error) {
+      logger.error('Phone login failed', error);
+      return ResponseUtil.error(res, 'Phone login failed');
+    }
+  }
+
+  static oauthStart(provider: OAuthProvider): RequestHandler {
+    return async (req: Request, res: Response, next: NextFunction) => {
+      try {
+        if (!passportManager.isProviderEnabled(provider)) {
+          return ResponseUtil.error(
+            res,
+            `${provider} login is not configured`,
+            HttpStatusCode.SERVICE_UNAVAILABLE
+          );
+        }
+        // An authenticated user linking this provider passes a link token,
+        // which travels through the provider as the OAuth state. Logins get
+        // a state of their own, bound to this browser by a nonce cookie.
+        const link = req.query['link'];
+        let state: string;
+        if (typeof link === 'string' && link) {
+          state = link;
+        } else {
+          const loginState = await passportManager.createLoginState();
+          state = loginState.state;
+          res.cookie(OAUTH_LOGIN_COOKIE, loginState.nonce, {
+            httpOnly: true,
+            secure: config.session.secure,
+            sameSite: 'lax',
+            // Scoped to the auth router, which also serves the callback
+            path: req.baseUrl || '/',
+            maxAge: OAUTH_LOGIN_EXPIRY_SECONDS * 1000,
+          });
+        }
+        return passport.authenticate(provider, { session: false, state })(
+          req,
+          res,
+          next
+        );
+      } catch (error) {
+        logger.error(`${provider} OAuth start failed`, error);
+        return ResponseUtil.error(res, `${provider} login failed`);
+      }
+    };
+  }
+
+  static oauthCallback(provider: OAuthProvider): RequestHandler {
+    return (req: Request, res: Response, next: NextFunction) => {
+      const redirectUrl = `${config.urls.frontend}/auth/callback`;
+      const state = req.query['state'];
+      const isLinking =
+        typeof state === 'string' &&
+        !!state &&
+        !passportManager.isLoginState(state);
+      res.clearCookie(isLinking ? OAUTH_LINK_COOKIE : OAUTH_LOGIN_COOKIE, {
+        path: req.baseUrl || '/',
+      });
+
+      passport.authenticate(
+        provider,
+        { session: false },
+        async (error: Error | null, user: UserDocument | false) => {
+          try {
+            if (error || !user) {
+              logger.error(`${provider} OAuth login failed`, error);
+              loggerUtils.logAuth(
+                `oauth_${provider}`,
+                undefined,
+                undefined,
+                req.ip,
+                false
+              );
+              if (error instanceof OAuthLinkRequiredError) {
+                return res.redirect(`${redirectUrl}?error=link_required`);
+              }
+              return res.redirect(
+                `${redirectUrl}?error=${isLinking ? 'link_failed' : 'oauth_failed'}`
+              );
+            }
+
+            const userId = String(user._id);
+            if (isLinking) {
+              loggerUtils.logAuth(
+                `link_${provider}`,
+                userId,
+                user.email,
+                req.ip
+              );
+              return res.redirect(`${redirectUrl}?linked=${provider}`);
+            }
+
+            if (user.status !== 'ACTIVE') {
+              loggerUtils.logAuth(
+                `oauth_${provider}`,
+                userId,
+                user.email,
+                req.ip,
+                false
+              );
+              return res.redirect(
+                `${redirectUrl}?error=${user.status.toLowerCase()}`
+              );
+            }
+
+            const result = await AuthController.completeLogin(req, user);
+            loggerUtils.logAuth(
+              'mfaToken' in result
+                ? `oauth_${provider}_mfa_pending`
+                : `oauth_${provider}`,
+              userId,
+              user.email,
+              req.ip
+            );
+
+            // Tokens travel in the fragment so they never reach server logs
+            const fragment = new URLSearchParams(
+              Object.entries(result).map(([key, value]): [string, string] => [
+                key,
+                String(value),
+              ])
+            );
+            return res.redirect(`${redirectUrl}#${fragment.toString()}`);
+          } catch (callbackError) {
+            logger.error(`${provider} OAuth callback failed`, callbackError);
+            return res.redirect(`${redirectUrl}?error=oauth_failed`);
+          }
+        }
+      )(req, res, next);
+    };
+  }
 }
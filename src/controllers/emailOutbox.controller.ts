@@ -0,0 +1,100 @@
+import { Request, Response } from 'express';
+import { JWTPayload } from '@/config';
+import EmailOutbox from '@/models/EmailOutbox.model';
+import { EmailOutboxService } from '@/services/emailOutbox.service';
+import { logger } from '@/utils/logger';
+import { ResponseUtil } from '@/utils/response';
+
+/**
+ * Email Outbox Controller
+ * Lets admins inspect queued emails and retry dead ones
+ */
+export class EmailOutboxController {
+  /**
+   * List outbox messages, newest first, without their bodies
+   * @route GET /api/v1/admin/emails
+   */
+  public static async listEmails(req: Request, res: Response): Promise<void> {
+    try {
+      const status = req.query['status'];
+      const page = Number(req.query['page']);
+      const limit = Number(req.query['limit']);
+      const filter = status ? { status } : {};
+
+      const [emails, total] = await Promise.all([
+        EmailOutbox.find(filter)
+          .select('-html -text -attachments')
+          .sort({ createdAt: -1 })
+          .skip((page - 1) * limit)
+          .limit(limit),
+        EmailOutbox.countDocuments(filter),
+      ]);
+      ResponseUtil.paginated(
+        res,
+        { emails },
+        total,
+        page,
+        limit,
+        'Emails retrieved successfully'
+      );
+    } catch (error) {
+      logger.error('Failed to retrieve emails', error);
+      ResponseUtil.error(res, 'Failed to retrieve emails');
+    }
+  }
+
+  /**
+   * Get a single outbox message without its body, which may hold one-time
+   * codes and sign-in links
+   * @route GET /api/v1/admin/emails/:id
+   */
+  public static async getEmail(req: Request, res: Response): Promise<void> {
+    try {
+      const email = await EmailOutbox.findById(req.params['id']).select(
+        '-html -text -attachments.content'
+      );
+      if (!email) {
+        ResponseUtil.notFound(res, 'Email not found');
+        return;
+      }
+      ResponseUtil.success(res, { email }, 'Email retrieved successfully');
+    } catch (error) {
+      logger.error('Failed to retrieve email', error);
+      ResponseUtil.error(res, 'Failed to retrieve email');
+    }
+  }
+
+  /**
+   * Queue a dead email for delivery again
+   * @route POST /api/v1/admin/emails/:id/retry
+   */
+  public static async retryEmail(req: Request, res: Response): Promise<void> {
+    try {
+      const id = req.params['id'] as string;
+      const auth: JWTPayload = res.locals['auth'];
+
+      const email = await EmailOutboxService.retry(id);
+      if (!email) {
+        if (await EmailOutbox.exists({ _id: id })) {
+          ResponseUtil.conflict(res, 'Only dead emails can be retried');
+        } else {
+          ResponseUtil.notFound(res, 'Email not found');
+        }
+        return;
+      }
+
+      logger.info('Dead email queued for retry', {
+        outboxId: id,
+        userId: auth.userId,
+      });
+      ResponseUtil.success(
+        res,
+        { email },
+        'Email queued for delivery successfully'
+      );
+    } catch (error) {
+      logger.error('Failed to retry email', error);
+      ResponseUtil.error(res, 'Failed to retry email');
+    }
+  }
+}
@@ -0,0 +1,281 @@
+import { Request, Response } from 'express';
+import { UserDocument } from '@/models/User.model';
+import {
+  JWTPayload,
+  OAUTH_LINK_COOKIE,
+  OAUTH_LINK_EXPIRY_SECONDS,
+  OAuthProvider,
+  config,
+  emailManager,
+  passportManager,
+} from '@/config';
+import { TokenService } from '@/services/token.service';
+import { HttpStatusCode } from '@/types/api';
+import { logger, loggerUtils } from '@/utils/logger';
+import { ResponseUtil } from '@/utils/response';
+
+/**
+ * Identity Controller
+ * Lets a signed-in user manage the login methods attached to their account
+ */
+export class IdentityController {
+  /**
+   * List linked identities and whether a password or verified phone is set
+   * @route GET /api/v1/auth/identities
+   */
+  public static async listIdentities(
+    _req: Request,
+    res: Response
+  ): Promise<void> {
+    try {
+      const user: UserDocument = res.locals['user'];
+
+      ResponseUtil.success(
+        res,
+        {
+          identities: user.identities,
+          hasPassword: !!user.password,
+          hasVerifiedPhone: user.isPhoneVerified(),
+        },
+        'Identities retrieved successfully'
+      );
+    } catch (error) {
+      logger.error('Failed to retrieve identities', error);
+      ResponseUtil.error(res, 'Failed to retrieve identities');
+    }
+  }
+
+  /**
+   * Create the provider URL that links an OAuth account to the current user
+   * @route POST /api/v1/auth/identities/:provider/link
+   */
+  public static async createLinkUrl(
+    req: Request,
+    res: Response
+  ): Promise<void> {
+    try {
+      const user: UserDocument = res.locals['user'];
+      const provider = req.params['provider'] as OAuthProvider;
+
+      if (!passportManager.isProviderEnabled(provider)) {
+        ResponseUtil.error(
+          res,
+          `${provider} login is not configured`,
+          HttpStatusCode.SERVICE_UNAVAILABLE
+        );
+        return;
+      }
+
+      const { state, nonce } = await passportManager.createLinkState(
+        String(user._id)
+      );
+      const apiVersion = process.env['API_VERSION'] || 'v1';
+      const url = `${config.urls.api}/${apiVersion}/auth/${provider}?link=${encodeURIComponent(state)}`;
+
+      // The callback only links when it runs in the browser holding this nonce
+      res.cookie(OAUTH_LINK_COOKIE, nonce, {
+        httpOnly: true,
+        secure: config.session.secure,
+        sameSite: 'lax',
+        // Scoped to the auth router, which also serves the callback
+        path: req.baseUrl || '/',
+        maxAge: OAUTH_LINK_EXPIRY_SECONDS * 1000,
+      });
+
+      ResponseUtil.success(res, { url }, 'Link URL created successfully');
+    } catch (error) {
+      logger.error('Failed to create link URL', error);
+      ResponseUtil.error(res, 'Failed to create link URL');
+    }
+  }
+
+  /**
+   * Email a code that confirms adding a password to an OAuth account
+   * An access token alone must not be enough to add a login method.
+   * @route POST /api/v1/auth/identities/password
+   */
+  public static async requestPasswordSetup(
+    req: Request,
+    res: Response
+  ): Promise<void> {
+    try {
+      const user: UserDocument = res.locals['user'];
+      if (!IdentityController.canSetPassword(user, res)) {
+        return;
+      }
+      if (user.isOTPLocked()) {
+        ResponseUtil.rateLimitExceeded(
+          res,
+          'Too many invalid attempts. Please request a new code later.'
+        );
+        return;
+      }
+      const cooldown = user.getOTPResendCooldown();
+      if (cooldown > 0) {
+        ResponseUtil.rateLimitExceeded(
+          res,
+          `Please wait ${Math.ceil(cooldown / 1000)} seconds before requesting a new code`
+        );
+        return;
+      }
+
+      const otp = user.generateOTP('PASSWORD_SETUP');
+      await user.save();
+      const isSent = await emailManager.sendPasswordSetupCode(
+        user.email,
+        `${user.firstName} ${user.lastName}`,
+        otp.code
+      );
+      if (!isSent) {
+        ResponseUtil.error(res, 'Unable to send confirmation code', 400);
+        return;
+      }
+
+      loggerUtils.logAuth(
+        'password_setup_requested',
+        String(user._id),
+        user.email,
+        req.ip
+      );
+      ResponseUtil.success(
+        res,
+        { expiresAt: otp.expiresAt },
+        'A confirmation code has been sent to your email address'
+      );
+    } catch (error) {
+      logger.error('Failed to request password setup', error);
+      ResponseUtil.error(res, 'Failed to request password setup');
+    }
+  }
+
+  /**
+   * Add a password with the code emailed by requestPasswordSetup
+   * @route POST /api/v1/auth/identities/password/confirm
+   */
+  public static async setPassword(req: Request, res: Response): Promise<void> {
+    try {
+      const user: UserDocument = res.locals['user'];
+      const auth: JWTPayload = res.locals['auth'];
+      const { otp, password } = req.body;
+
+      if (!IdentityController.canSetPassword(user, res)) {
+        return;
+      }
+      if (user.isOTPLocked()) {
+        ResponseUtil.rateLimitExceeded(
+          res,
+          'Too many invalid attempts. Please request a new code later.'
+        );
+        return;
+      }
+      if (!user.isOTPValid(otp, 'PASSWORD_SETUP')) {
+        // persist the failed attempt counter
+        await user.save();
+        loggerUtils.logAuth(
+          'password_added',
+          auth.userId,
+          user.email,
+          req.ip,
+          false
+        );
+        ResponseUtil.badRequest(res, 'Invalid OTP');
+        return;
+      }
+
+      user.password = password;
+      user.set('otp', undefined);
+      await user.save();
+      await TokenService.revokeOtherSessions(auth.userId, auth.familyId);
+      loggerUtils.logAuth('password_added', auth.userId, user.email, req.ip);
+
+      const isEmailSent = await emailManager.sendPasswordChangeNotification(
+        user.email,
+        `${user.firstName} ${user.lastName}`
+      );
+      if (!isEmailSent) {
+        logger.error('Unable to send the password change notification', {
+          userId: auth.userId,
+        });
+      }
+
+      ResponseUtil.success(
+        res,
+        null,
+        'Password added successfully. Other devices have been signed out.'
+      );
+    } catch (error) {
+      logger.error('Failed to add password', error);
+      ResponseUtil.error(res, 'Failed to add password');
+    }
+  }
+
+  /**
+   * Unlink an OAuth provider, keeping at least one login method
+   * @route DELETE /api/v1/auth/identities/:provider
+   */
+  public static async unlinkIdentity(
+    req: Request,
+    res: Response
+  ): Promise<void> {
+    try {
+      const user: UserDocument = res.locals['user'];
+      const provider = req.params['provider'];
+
+      const index = user.identities.findIndex(i => i.provider === provider);
+      if (index === -1) {
+        ResponseUtil.notFound(res, `No ${provider} account is linked`);
+        return;
+      }
+      if (user.countLoginMethods() <= 1) {
+        ResponseUtil.badRequest(
+          res,
+          'You cannot remove your last login method'
+        );
+        return;
+      }
+
+      user.identities.splice(index, 1);
+      await user.save();
+
+      loggerUtils.logAuth(
+        `unlink_${provider}`,
+        String(user._id),
+        user.email,
+        req.ip
+      );
+      ResponseUtil.success(
+        res,
+        {
+          identities: user.identities,
+          hasPassword: !!user.password,
+          hasVerifiedPhone: user.isPhoneVerified(),
+        },
+        `${provider} account unlinked successfully`
+      );
+    } catch (error) {
+      logger.error('Failed to unlink identity', error);
+      ResponseUtil.error(res, 'Failed to unlink identity');
+    }
+  }
+
+  /**
+   * Check that a password can be added, answering the request when it cannot
+   */
+  private static canSetPassword(
+    user: UserDocument,
+    res: Response
+  ): user is UserDocument & { email: string } {
+    if (user.password) {
+      ResponseUtil.conflict(res, 'A password is already set');
+      return false;
+    }
+    if (!user.email) {
+      ResponseUtil.badRequest(
+        res,
+        'An email address is required to sign in with a password'
+      );
+      return false;
+    }
+    return true;
+  }
+}
@@ -1,2 +1,10 @@
+export { AdminController } from './admin.controller';
+export { ApiKeyController } from './apiKey.controller';
 export { AuthController } from './auth.controller';
+export { EmailOutboxController } from './emailOutbox.controller';
+export { IdentityController } from './identity.controller';
+export { RoleController } from './role.controller';
+export { SessionController } from './session.controller';
 export { TestController } from './test.controller';
+export { TwoFactorController } from './twoFactor.controller';
+export { UserController } from './user.controller';
@@ -0,0 +1,259 @@
+import { Request, Response } from 'express';
+import { JWTPayload } from '@/config';
+import Permission from '@/models/Permission.model';
+import Role from '@/models/Role.model';
+import User from '@/models/User.model';
+import { PolicyService } from '@/services/policy.service';
+import { logger } from '@/utils/logger';
+import { ResponseUtil } from '@/utils/response';
+
+/**
+ * Find the grants the signed-in user or API key does not hold themselves
+ */
+const findGrantsBeyondActor = (
+  res: Response,
+  grants: string[]
+): Promise<string[]> =>
+  PolicyService.findUncoveredGrants(
+    res.locals['apiKey'] || res.locals['user'],
+    [...new Set(grants)]
+  );
+
+/**
+ * Role Controller
+ * Handles role and permission management for admins
+ */
+export class RoleController {
+  /**
+   * List the permission catalog
+   * @route GET /api/v1/admin/permissions
+   */
+  public static async listPermissions(
+    _req: Request,
+    res: Response
+  ): Promise<void> {
+    try {
+      const permissions = await Permission.find().sort({ key: 1 });
+      ResponseUtil.success(
+        res,
+        { permissions },
+        'Permissions retrieved successfully'
+      );
+    } catch (error) {
+      logger.error('Failed to retrieve permissions', error);
+      ResponseUtil.error(res, 'Failed to retrieve permissions');
+    }
+  }
+
+  /**
+   * List all roles
+   * @route GET /api/v1/admin/roles
+   */
+  public static async listRoles(_req: Request, res: Response): Promise<void> {
+    try {
+      const roles = await Role.find().sort({ isSystem: -1, name: 1 });
+      ResponseUtil.success(res, { roles }, 'Roles retrieved successfully');
+    } catch (error) {
+      logger.error('Failed to retrieve roles', error);
+      ResponseUtil.error(res, 'Failed to retrieve roles');
+    }
+  }
+
+  /**
+   * Create a new role
+   * @route POST /api/v1/admin/roles
+   */
+  public static async createRole(req: Request, res: Response): Promise<void> {
+    try {
+      const { name, description, permissions } = req.body;
+
+      const existingRole = await Role.findOne({ name });
+      if (existingRole) {
+        ResponseUtil.conflict(res, 'A role with this name already exists');
+        return;
+      }
+
+      const unknown = await PolicyService.findUnknownPermissions(permissions);
+      if (unknown.length > 0) {
+        ResponseUtil.badRequest(
+          res,
+          `Unknown permissions: ${unknown.join(', ')}`
+        );
+        return;
+      }
+
+      const beyondActor = await findGrantsBeyondActor(res, permissions);
+      if (beyondActor.length > 0) {
+        ResponseUtil.forbidden(
+          res,
+          `You cannot grant permissions you do not hold: ${beyondActor.join(', ')}`
+        );
+        return;
+      }
+
+      const role = await new Role({ name, description, permissions }).save();
+      ResponseUtil.created(res, { role }, 'Role created successfully');
+    } catch (error) {
+      logger.error('Failed to create role', error);
+      ResponseUtil.error(res, 'Failed to create role');
+    }
+  }
+
+  /**
+   * Update a role's description or permissions
+   * @route PATCH /api/v1/admin/roles/:id
+   */
+  public static async updateRole(req: Request, res: Response): Promise<void> {
+    try {
+      const id = req.params['id'];
+      const { description, permissions } = req.body;
+
+      const role = await Role.findById(id);
+      if (!role) {
+        ResponseUtil.notFound(res, 'Role not found');
+        return;
+      }
+      if (role.isSystem) {
+        ResponseUtil.badRequest(res, 'System roles cannot be changed');
+        return;
+      }
+
+      // Roles that grant more than the actor holds are out of their reach
+      const beyondActor = await findGrantsBeyondActor(res, [
+        ...role.permissions,
+        ...(permissions || []),
+      ]);
+      if (beyondActor.length > 0) {
+        ResponseUtil.forbidden(
+          res,
+          `You cannot manage permissions you do not hold: ${beyondActor.join(', ')}`
+        );
+        return;
+      }
+
+      if (permissions) {
+        const unknown = await PolicyService.findUnknownPermissions(permissions);
+        if (unknown.length > 0) {
+          ResponseUtil.badRequest(
+            res,
+            `Unknown permissions: ${unknown.join(', ')}`
+          );
+          return;
+        }
+        role.permissions = permissions;
+      }
+      if (description !== undefined) {
+        role.description = description;
+      }
+      await role.save();
+      await PolicyService.invalidateAll();
+
+      ResponseUtil.success(res, { role }, 'Role updated successfully');
+    } catch (error) {
+      logger.error('Failed to update role', error);
+      ResponseUtil.error(res, 'Failed to update role');
+    }
+  }
+
+  /**
+   * Delete a custom role and remove it from users
+   * @route DELETE /api/v1/admin/roles/:id
+   */
+  public static async deleteRole(req: Request, res: Response): Promise<void> {
+    try {
+      const id = req.params['id'];
+
+      const role = await Role.findById(id);
+      if (!role) {
+        ResponseUtil.notFound(res, 'Role not found');
+        return;
+      }
+      if (role.isSystem) {
+        ResponseUtil.badRequest(res, 'System roles cannot be deleted');
+        return;
+      }
+      const beyondActor = await findGrantsBeyondActor(res, role.permissions);
+      if (beyondActor.length > 0) {
+        ResponseUtil.forbidden(
+          res,
+          `You cannot manage permissions you do not hold: ${beyondActor.join(', ')}`
+        );
+        return;
+      }
+
+      await User.updateMany(
+        { roles: role._id },
+        { $pull: { roles: role._id } }
+      );
+      await role.deleteOne();
+      await PolicyService.invalidateAll();
+
+      ResponseUtil.success(res, null, 'Role deleted successfully');
+    } catch (error) {
+      logger.error('Failed to delete role', error);
+      ResponseUtil.error(res, 'Failed to delete role');
+    }
+  }
+
+  /**
+   * Replace the additional roles assigned to a user
+   * @route PUT /api/v1/admin/users/:id/roles
+   */
+  public static async assignUserRoles(
+    req: Request,
+    res: Response
+  ): Promise<void> {
+    try {
+      const id = req.params['id'];
+      const auth: JWTPayload = res.locals['auth'];
+      const roleIds: string[] = [...new Set<string>(req.body.roles)];
+
+      if (id === auth.userId) {
+        ResponseUtil.forbidden(res, 'You cannot change your own roles');
+        return;
+      }
+
+      const user = await User.findById(id);
+      if (!user) {
+        ResponseUtil.notFound(res, 'User not found');
+        return;
+      }
+
+      const roles = await Role.find({ _id: { $in: roleIds } });
+      if (roles.length !== roleIds.length) {
+        ResponseUtil.badRequest(res, 'One or more roles do not exist');
+        return;
+      }
+
+      // Both the roles given and the roles taken away must be within reach
+      const currentRoles = await Role.find({ _id: { $in: user.roles || [] } });
+      const beyondActor = await findGrantsBeyondActor(
+        res,
+        [...roles, ...currentRoles].flatMap(role => role.permissions)
+      );
+      if (beyondActor.length > 0) {
+        ResponseUtil.forbidden(
+          res,
+          `You cannot manage permissions you do not hold: ${beyondActor.join(', ')}`
+        );
+        return;
+      }
+
+      user.set(
+        'roles',
+        roles.map(role => role._id)
+      );
+      await user.save();
+      await PolicyService.invalidateUser(String(user._id));
+
+      ResponseUtil.success(
+        res,
+        { user, roles },
+        'User roles updated successfully'
+      );
+    } catch (error) {
+      logger.error('Failed to update user roles', error);
+      ResponseUtil.error(res, 'Failed to update user roles');
+    }
+  }
+}
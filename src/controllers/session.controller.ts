@@ -0,0 +1,65 @@
+import { Request, Response } from 'express';
+import { JWTPayload } from '@/config';
+import { TokenService } from '@/services/token.service';
+import { logger, loggerUtils } from '@/utils/logger';
+import { ResponseUtil } from '@/utils/response';
+
+/**
+ * Session Controller
+ * Lets a signed-in user see the devices they are logged in on and log them out
+ */
+export class SessionController {
+  /**
+   * List the current user's active sessions
+   * @route GET /api/v1/auth/sessions
+   */
+  public static async listSessions(
+    _req: Request,
+    res: Response
+  ): Promise<void> {
+    try {
+      const auth: JWTPayload = res.locals['auth'];
+
+      const sessions = await TokenService.listSessions(auth.userId);
+      ResponseUtil.success(
+        res,
+        {
+          sessions: sessions.map(session => ({
+            ...session,
+            current: session.id === auth.familyId,
+          })),
+        },
+        'Sessions retrieved successfully'
+      );
+    } catch (error) {
+      logger.error('Failed to retrieve sessions', error);
+      ResponseUtil.error(res, 'Failed to retrieve sessions');
+    }
+  }
+
+  /**
+   * Revoke one of the current user's sessions
+   * @route DELETE /api/v1/auth/sessions/:sessionId
+   */
+  public static async revokeSession(
+    req: Request,
+    res: Response
+  ): Promise<void> {
+    try {
+      const auth: JWTPayload = res.locals['auth'];
+      const sessionId = req.params['sessionId'] as string;
+
+      const revoked = await TokenService.revokeSession(auth.userId, sessionId);
+      if (!revoked) {
+        ResponseUtil.notFound(res, 'Session not found');
+        return;
+      }
+
+      loggerUtils.logAuth('session_revoked', auth.userId, undefined, req.ip);
+      ResponseUtil.success(res, null, 'Session revoked successfully');
+    } catch (error) {
+      logger.error('Failed to revoke session', error);
+      ResponseUtil.error(res, 'Failed to revoke session');
+    }
+  }
+}
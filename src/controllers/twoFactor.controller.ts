@@ -0,0 +1,266 @@
+import { Request, Response } from 'express';
+import User, { UserDocument } from '@/models/User.model';
+import { JWTPayload } from '@/config';
+import { LoginAlertService } from '@/services/loginAlert.service';
+import { LoginAttemptService } from '@/services/loginAttempt.service';
+import { MfaTokenService } from '@/services/mfaToken.service';
+import { SessionService } from '@/services/session.service';
+import { TokenService } from '@/services/token.service';
+import { TotpService } from '@/services/totp.service';
+import { logger, loggerUtils } from '@/utils/logger';
+import { ResponseUtil } from '@/utils/response';
+
+/**
+ * Two-Factor Controller
+ * Handles TOTP enrollment, the second step of login and recovery codes
+ */
+export class TwoFactorController {
+  /**
+   * Start enrollment and return the secret and provisioning URI
+   * @route POST /api/v1/auth/2fa/setup
+   */
+  public static async setup(_req: Request, res: Response): Promise<void> {
+    try {
+      const user: UserDocument = res.locals['user'];
+      if (user.twoFactor?.enabled) {
+        ResponseUtil.conflict(
+          res,
+          'Two-factor authentication is already enabled'
+        );
+        return;
+      }
+
+      const secret = user.startTwoFactorEnrollment();
+      await user.save();
+
+      const accountName = user.email || user.phone || String(user._id);
+      ResponseUtil.success(
+        res,
+        {
+          secret,
+          otpauthUrl: TotpService.buildProvisioningUri(secret, accountName),
+        },
+        'Scan the code with your authenticator app, then confirm it'
+      );
+    } catch (error) {
+      logger.error('Failed to start two-factor setup', error);
+      ResponseUtil.error(res, 'Failed to start two-factor setup');
+    }
+  }
+
+  /**
+   * Confirm enrollment with a code and return the recovery codes
+   * When enrolling with an mfa setup token the login is completed as well.
+   * @route POST /api/v1/auth/2fa/enable
+   */
+  public static async enable(req: Request, res: Response): Promise<void> {
+    try {
+      const user: UserDocument = res.locals['user'];
+      const auth: JWTPayload | undefined = res.locals['auth'];
+      const { code } = req.body;
+
+      if (user.twoFactor?.enabled) {
+        ResponseUtil.conflict(
+          res,
+          'Two-factor authentication is already enabled'
+        );
+        return;
+      }
+      if (!user.twoFactor?.pendingSecret) {
+        ResponseUtil.badRequest(res, 'Start two-factor setup first');
+        return;
+      }
+
+      const recoveryCodes = user.activateTwoFactor(code);
+      if (!recoveryCodes) {
+        ResponseUtil.badRequest(res, 'Invalid authentication code');
+        return;
+      }
+      await user.save();
+
+      const userId = String(user._id);
+      loggerUtils.logAuth('two_factor_enabled', userId, user.email, req.ip);
+
+      let tokens = {};
+      if (!auth) {
+        const client = SessionService.clientFromRequest(req);
+        await LoginAlertService.recordLogin(user, client);
+        tokens = await TokenService.issueTokenPair(
+          { userId, role: user.role },
+          client
+        );
+      }
+      ResponseUtil.success(
+        res,
+        { user, recoveryCodes, ...tokens },
+        'Two-factor authentication enabled. Store your recovery codes safely.'
+      );
+    } catch (error) {
+      logger.error('Failed to enable two-factor authentication', error);
+      ResponseUtil.error(res, 'Failed to enable two-factor authentication');
+    }
+  }
+
+  /**
+   * Complete a login with a TOTP or recovery code
+   * @route POST /api/v1/auth/2fa/verify
+   */
+  public static async verify(req: Request, res: Response): Promise<void> {
+    try {
+      const { mfaToken, code } = req.body;
+      const ip = req.ip || 'unknown';
+
+      const pending = await MfaTokenService.verify(mfaToken);
+      if (!pending) {
+        ResponseUtil.unauthorized(res, 'Invalid or expired mfa token');
+        return;
+      }
+      const { userId } = pending;
+
+      const user = await User.findById(userId);
+      if (!user || user.status !== 'ACTIVE' || !user.twoFactor?.enabled) {
+        ResponseUtil.unauthorized(res, 'Invalid mfa token');
+        return;
+      }
+
+      const method = user.verifyTwoFactorCode(code);
+      if (!method) {
+        const shouldLock = await LoginAttemptService.recordUserFailure(userId);
+        loggerUtils.logAuth('login_mfa', userId, user.email, ip, false);
+
+        if (shouldLock) {
+          const lockedUntil = user.blockTemporarily();
+          await user.save();
+          await LoginAttemptService.resetUser(userId);
+          logger.warn('Account temporarily locked after failed 2FA codes', {
+            userId,
+            ip,
+          });
+          ResponseUtil.accountLocked(
+            res,
+            'Too many invalid codes. Your account is temporarily locked.',
+            lockedUntil
+          );
+          return;
+        }
+        ResponseUtil.unauthorized(res, 'Invalid authentication code');
+        return;
+      }
+      if (!(await MfaTokenService.consume(pending.jti))) {
+        ResponseUtil.unauthorized(res, 'Invalid or expired mfa token');
+        return;
+      }
+      await user.save();
+      await LoginAttemptService.resetUser(userId);
+
+      const client = SessionService.clientFromRequest(req);
+      await LoginAlertService.recordLogin(user, client);
+      const { accessToken, refreshToken } = await TokenService.issueTokenPair(
+        { userId, role: user.role },
+        client
+      );
+      loggerUtils.logAuth(`login_mfa_${method}`, userId, user.email, ip);
+      ResponseUtil.success(
+        res,
+        {
+          user,
+          accessToken,
+          refreshToken,
+          recoveryCodesRemaining: user.twoFactor.recoveryCodes?.length || 0,
+        },
+        'Login successful'
+      );
+    } catch (error) {
+      logger.error('Two-factor verification failed', error);
+      ResponseUtil.error(res, 'Two-factor verification failed');
+    }
+  }
+
+  /**
+   * Turn off two-factor authentication
+   * @route POST /api/v1/auth/2fa/disable
+   */
+  public static async disable(req: Request, res: Response): Promise<void> {
+    try {
+      const user: UserDocument = res.locals['user'];
+      const { code } = req.body;
+
+      if (!user.twoFactor?.enabled) {
+        ResponseUtil.badRequest(
+          res,
+          'Two-factor authentication is not enabled'
+        );
+        return;
+      }
+      if (user.isTwoFactorRequired()) {
+        ResponseUtil.forbidden(
+          res,
+          'Two-factor authentication is required for your role'
+        );
+        return;
+      }
+      if (!user.verifyTwoFactorCode(code)) {
+        ResponseUtil.badRequest(res, 'Invalid authentication code');
+        return;
+      }
+
+      user.set('twoFactor', undefined);
+      await user.save();
+
+      loggerUtils.logAuth(
+        'two_factor_disabled',
+        String(user._id),
+        user.email,
+        req.ip
+      );
+      ResponseUtil.success(res, { user }, 'Two-factor authentication disabled');
+    } catch (error) {
+      logger.error('Failed to disable two-factor authentication', error);
+      ResponseUtil.error(res, 'Failed to disable two-factor authentication');
+    }
+  }
+
+  /**
+   * Replace the recovery codes
+   * @route POST /api/v1/auth/2fa/recovery-codes
+   */
+  public static async regenerateRecoveryCodes(
+    req: Request,
+    res: Response
+  ): Promise<void> {
+    try {
+      const user: UserDocument = res.locals['user'];
+      const { code } = req.body;
+
+      if (!user.twoFactor?.enabled) {
+        ResponseUtil.badRequest(
+          res,
+          'Two-factor authentication is not enabled'
+        );
+        return;
+      }
+      if (!user.verifyTwoFactorCode(code)) {
+        ResponseUtil.badRequest(res, 'Invalid authentication code');
+        return;
+      }
+
+      const recoveryCodes = user.regenerateRecoveryCodes();
+      await user.save();
+
+      loggerUtils.logAuth(
+        'recovery_codes_regenerated',
+        String(user._id),
+        user.email,
+        req.ip
+      );
+      ResponseUtil.success(
+        res,
+        { recoveryCodes },
+        'Recovery codes regenerated. Previous codes no longer work.'
+      );
+    } catch (error) {
+      logger.error('Failed to regenerate recovery codes', error);
+      ResponseUtil.error(res, 'Failed to regenerate recovery codes');
+    }
+  }
+}
@@ -0,0 +1,498 @@
+import { Request, Response } from 'express';
+import User, { UserDocument } from '@/models/User.model';
+import { JWTPayload, emailManager, smsManager } from '@/config';
+import { AccountService } from '@/services/account.service';
+import { AvatarService } from '@/services/avatar.service';
+import { HttpStatusCode } from '@/types/api';
+import { TokenService } from '@/services/token.service';
+import { DatabaseUtil } from '@/utils/database';
+import { logger, loggerUtils } from '@/utils/logger';
+import { ResponseUtil } from '@/utils/response';
+
+/**
+ * User Controller
+ * Handles the signed-in user's own account under /users/me
+ */
+export class UserController {
+  /**
+   * Get the profile of the signed-in user
+   * @route GET /api/v1/users/me
+   */
+  public static async getProfile(_req: Request, res: Response): Promise<void> {
+    try {
+      const user: UserDocument = res.locals['user'];
+      ResponseUtil.success(res, { user }, 'Profile retrieved successfully');
+    } catch (error) {
+      logger.error('Failed to retrieve profile', error);
+      ResponseUtil.error(res, 'Failed to retrieve profile');
+    }
+  }
+
+  /**
+   * Update the name, phone number or image of the signed-in user
+   * A new phone number must be verified again: the account moves to
+   * NEED_PHONE_VERIFICATION, every session is signed out and a code is sent to
+   * the new number for /auth/verify-phone.
+   * @route PATCH /api/v1/users/me
+   */
+  public static async updateProfile(
+    req: Request,
+    res: Response
+  ): Promise<void> {
+    try {
+      const user: UserDocument = res.locals['user'];
+      const auth: JWTPayload = res.locals['auth'];
+      const { firstName, lastName, phone, image } = req.body;
+      const isPhoneChanged = phone !== undefined && phone !== user.phone;
+
+      if (isPhoneChanged) {
+        // The phone number is a login credential
+        if (auth.actorId) {
+          ResponseUtil.forbidden(
+            res,
+            'This action is not allowed while impersonating a user'
+          );
+          return;
+        }
+        if (await User.exists({ phone, _id: { $ne: user._id } })) {
+          ResponseUtil.conflict(res, 'This phone number is already in use');
+          return;
+        }
+        const cooldown = user.getOTPResendCooldown();
+        if (cooldown > 0) {
+          ResponseUtil.rateLimitExceeded(
+            res,
+            `Please wait ${Math.ceil(cooldown / 1000)} seconds before requesting a new code`
+          );
+          return;
+        }
+      }
+
+      if (firstName !== undefined) {
+        user.firstName = firstName;
+      }
+      if (lastName !== undefined) {
+        user.lastName = lastName;
+      }
+      // A photo set by URL replaces any uploaded one
+      const previousPublicId =
+        image !== undefined ? user.imagePublicId : undefined;
+      if (image !== undefined) {
+        user.image = image;
+        user.set('imagePublicId', undefined);
+      }
+
+      let otpCode: string | undefined;
+      if (isPhoneChanged) {
+        user.phone = phone;
+        user.set('phoneVerifiedAt', undefined);
+        user.status = 'NEED_PHONE_VERIFICATION';
+        otpCode = user.generateOTP().code;
+      }
+
+      try {
+        await user.save();
+      } catch (error) {
+        if (DatabaseUtil.isDuplicateKeyError(error)) {
+          ResponseUtil.conflict(res, 'This phone number is already in use');
+          return;
+        }
+        throw error;
+      }
+
+      if (previousPublicId) {
+        await AvatarService.deleteAsset(previousPublicId);
+      }
+
+      if (!isPhoneChanged || !otpCode) {
+        ResponseUtil.success(res, { user }, 'Profile updated successfully');
+        return;
+      }
+
+      await TokenService.revokeAllForUser(auth.userId);
+      loggerUtils.logAuth('phone_changed', auth.userId, user.email, req.ip);
+      const isSent = await smsManager.sendVerificationCode(phone, otpCode);
+      if (!isSent) {
+        logger.error('Unable to send the phone verification code', {
+          userId: auth.userId,
+        });
+      }
+
+      ResponseUtil.success(
+        res,
+        { user },
+        isSent
+          ? 'Profile updated. Verify your new phone number with the code we sent to sign in again.'
+          : 'Profile updated, but the verification code could not be sent. Request a new one to verify your phone number.'
+      );
+    } catch (error) {
+      logger.error('Failed to update profile', error);
+      ResponseUtil.error(res, 'Failed to update profile');
+    }
+  }
+
+  /**
+   * Upload a new profile photo, replacing the previous one
+   * @route PUT /api/v1/users/me/avatar
+   */
+  public static async uploadAvatar(req: Request, res: Response): Promise<void> {
+    try {
+      const user: UserDocument = res.locals['user'];
+
+      if (!AvatarService.isEnabled()) {
+        ResponseUtil.error(
+          res,
+          'Photo uploads are not configured',
+          HttpStatusCode.SERVICE_UNAVAILABLE
+        );
+        return;
+      }
+      if (!req.file) {
+        ResponseUtil.badRequest(res, 'An image file is required');
+        return;
+      }
+
+      const avatar = await AvatarService.upload(user, req.file.buffer);
+      ResponseUtil.success(res, avatar, 'Profile photo updated successfully');
+    } catch (error) {
+      logger.error('Failed to upload profile photo', error);
+      ResponseUtil.error(res, 'Failed to upload profile photo');
+    }
+  }
+
+  /**
+   * Remove the profile photo
+   * @route DELETE /api/v1/users/me/avatar
+   */
+  public static async deleteAvatar(
+    _req: Request,
+    res: Response
+  ): Promise<void> {
+    try {
+      const user: UserDocument = res.locals['user'];
+
+      if (!user.image) {
+        ResponseUtil.badRequest(res, 'There is no profile photo to remove');
+        return;
+      }
+
+      await AvatarService.remove(user);
+      ResponseUtil.success(res, null, 'Profile photo removed successfully');
+    } catch (error) {
+      logger.error('Failed to remove profile photo', error);
+      ResponseUtil.error(res, 'Failed to remove profile photo');
+    }
+  }
+
+  /**
+   * Change the password after checking the current one
+   * @route POST /api/v1/users/me/password
+   */
+  public static async changePassword(
+    req: Request,
+    res: Response
+  ): Promise<void> {
+    try {
+      const user: UserDocument = res.locals['user'];
+      const auth: JWTPayload = res.locals['auth'];
+      const { currentPassword, newPassword } = req.body;
+
+      if (!user.password) {
+        ResponseUtil.badRequest(
+          res,
+          'Your account has no password yet. Use /auth/identities/password to set one.'
+        );
+        return;
+      }
+      if (!(await user.comparePassword(currentPassword))) {
+        loggerUtils.logAuth(
+          'password_change',
+          auth.userId,
+          user.email,
+          req.ip,
+          false
+        );
+        ResponseUtil.badRequest(res, 'Current password is incorrect');
+        return;
+      }
+
+      user.password = newPassword;
+      await user.save();
+      await TokenService.revokeOtherSessions(auth.userId, auth.familyId);
+      loggerUtils.logAuth('password_change', auth.userId, user.email, req.ip);
+
+      if (user.email) {
+        const isEmailSent = await emailManager.sendPasswordChangeNotification(
+          user.email,
+          `${user.firstName} ${user.lastName}`
+        );
+        if (!isEmailSent) {
+          logger.error('Unable to send the password change notification', {
+            userId: auth.userId,
+          });
+        }
+      }
+
+      ResponseUtil.success(
+        res,
+        null,
+        'Password changed successfully. Other devices have been signed out.'
+      );
+    } catch (error) {
+      logger.error('Failed to change password', error);
+      ResponseUtil.error(res, 'Failed to change password');
+    }
+  }
+
+  /**
+   * Start an email change by sending a code to the new address and a notice
+   * to the current one
+   * @route POST /api/v1/users/me/email
+   */
+  public static async requestEmailChange(
+    req: Request,
+    res: Response
+  ): Promise<void> {
+    try {
+      const user: UserDocument = res.locals['user'];
+      const { newEmail, password } = req.body;
+
+      if (user.password && !(await user.comparePassword(password || ''))) {
+        ResponseUtil.badRequest(res, 'Password is incorrect');
+        return;
+      }
+      if (newEmail === user.email) {
+        ResponseUtil.badRequest(res, 'This is already your email address');
+        return;
+      }
+      if (await User.exists({ email: newEmail })) {
+        ResponseUtil.conflict(res, 'This email address is already in use');
+        return;
+      }
+      if (user.isOTPLocked()) {
+        ResponseUtil.rateLimitExceeded(
+          res,
+          'Too many invalid attempts. Please request a new code later.'
+        );
+        return;
+      }
+      const cooldown = user.getOTPResendCooldown();
+      if (cooldown > 0) {
+        ResponseUtil.rateLimitExceeded(
+          res,
+          `Please wait ${Math.ceil(cooldown / 1000)} seconds before requesting a new code`
+        );
+        return;
+      }
+
+      const userName = `${user.firstName} ${user.lastName}`;
+      user.pendingEmail = newEmail;
+      const otp = user.generateOTP();
+      await user.save();
+
+      const isSent = await emailManager.sendEmailVerification(
+        newEmail,
+        userName,
+        otp.code
+      );
+      if (!isSent) {
+        ResponseUtil.error(res, 'Unable to send verification code', 400);
+        return;
+      }
+      if (user.email) {
+        const isNoticeSent = await emailManager.sendEmailChangeNotification(
+          user.email,
+          userName,
+          newEmail
+        );
+        if (!isNoticeSent) {
+          logger.error('Unable to send the email change notice', {
+            userId: String(user._id),
+          });
+        }
+      }
+
+      loggerUtils.logAuth(
+        'email_change_requested',
+        String(user._id),
+        user.email,
+        req.ip
+      );
+      ResponseUtil.success(
+        res,
+        { expiresAt: otp.expiresAt },
+        'A verification code has been sent to your new email address'
+      );
+    } catch (error) {
+      logger.error('Failed to request email change', error);
+      ResponseUtil.error(res, 'Failed to request email change');
+    }
+  }
+
+  /**
+   * Confirm an email change with the code sent to the new address
+   * @route POST /api/v1/users/me/email/confirm
+   */
+  public static async confirmEmailChange(
+    req: Request,
+    res: Response
+  ): Promise<void> {
+    try {
+      const user: UserDocument = res.locals['user'];
+      const auth: JWTPayload = res.locals['auth'];
+      const { otp } = req.body;
+
+      if (!user.pendingEmail) {
+        ResponseUtil.badRequest(res, 'There is no pending email change');
+        return;
+      }
+      if (user.isOTPLocked()) {
+        ResponseUtil.rateLimitExceeded(
+          res,
+          'Too many invalid attempts. Please request a new code later.'
+        );
+        return;
+      }
+      if (!user.isOTPValid(otp)) {
+        // persist the failed attempt counter
+        await user.save();
+        ResponseUtil.badRequest(res, 'Invalid OTP');
+        return;
+      }
+
+      user.email = user.pendingEmail;
+      user.set('pendingEmail', undefined);
+      user.set('otp', undefined);
+      try {
+        await user.save();
+      } catch (error) {
+        if (DatabaseUtil.isDuplicateKeyError(error)) {
+          ResponseUtil.conflict(res, 'This email address is already in use');
+          return;
+        }
+        throw error;
+      }
+
+      await TokenService.revokeOtherSessions(auth.userId, auth.familyId);
+      loggerUtils.logAuth('email_changed', auth.userId, user.email, req.ip);
+      ResponseUtil.success(
+        res,
+        { user },
+        'Email changed successfully. Other devices have been signed out.'
+      );
+    } catch (error) {
+      logger.error('Failed to change email', error);
+      ResponseUtil.error(res, 'Failed to change email');
+    }
+  }
+
+  /**
+   * Request the deletion of the account at the end of the grace period
+   * Other devices are signed out; the current one stays signed in so the
+   * request can still be cancelled.
+   * @route POST /api/v1/users/me/deletion
+   */
+  public static async requestDeletion(
+    req: Request,
+    res: Response
+  ): Promise<void> {
+    try {
+      const user: UserDocument = res.locals['user'];
+      const auth: JWTPayload = res.locals['auth'];
+      const { password } = req.body;
+
+      if (user.deletion?.scheduledFor) {
+        ResponseUtil.conflict(
+          res,
+          'Account deletion has already been requested'
+        );
+        return;
+      }
+      if (user.password && !(await user.comparePassword(password || ''))) {
+        ResponseUtil.badRequest(res, 'Password is incorrect');
+        return;
+      }
+
+      const scheduledFor = await AccountService.scheduleDeletion(user);
+      await TokenService.revokeOtherSessions(auth.userId, auth.familyId);
+      loggerUtils.logAuth(
+        'account_deletion_requested',
+        auth.userId,
+        user.email,
+        req.ip
+      );
+
+      if (user.email) {
+        const isEmailSent =
+          await emailManager.sendAccountDeletionScheduledNotification(
+            user.email,
+            `${user.firstName} ${user.lastName}`,
+            scheduledFor
+          );
+        if (!isEmailSent) {
+          logger.error('Unable to send the account deletion notice', {
+            userId: auth.userId,
+          });
+        }
+      }
+
+      ResponseUtil.success(
+        res,
+        { scheduledFor },
+        'Your account is scheduled for deletion. You can cancel before the scheduled date.'
+      );
+    } catch (error) {
+      logger.error('Failed to request account deletion', error);
+      ResponseUtil.error(res, 'Failed to request account deletion');
+    }
+  }
+
+  /**
+   * Cancel a pending account deletion during the grace period
+   * @route DELETE /api/v1/users/me/deletion
+   */
+  public static async cancelDeletion(
+    req: Request,
+    res: Response
+  ): Promise<void> {
+    try {
+      const user: UserDocument = res.locals['user'];
+
+      if (!user.deletion?.scheduledFor) {
+        ResponseUtil.badRequest(res, 'There is no pending account deletion');
+        return;
+      }
+
+      await AccountService.cancelDeletion(user);
+      loggerUtils.logAuth(
+        'account_deletion_cancelled',
+        String(user._id),
+        user.email,
+        req.ip
+      );
+      ResponseUtil.success(res, { user }, 'Account deletion cancelled');
+    } catch (error) {
+      logger.error('Failed to cancel account deletion', error);
+      ResponseUtil.error(res, 'Failed to cancel account deletion');
+    }
+  }
+
+  /**
+   * Download a JSON archive of everything stored about the user
+   * @route GET /api/v1/users/me/export
+   */
+  public static async exportData(req: Request, res: Response): Promise<void> {
+    try {
+      const user: UserDocument = res.locals['user'];
+      const archive = await AccountService.exportData(user);
+      const date = new Date().toISOString().slice(0, 10);
+
+      loggerUtils.logAuth('data_export', String(user._id), user.email, req.ip);
+      res.attachment(`glyde-export-${String(user._id)}-${date}.json`);
+      res.status(200).json(archive);
+    } catch (error) {
+      logger.error('Failed to export account data', error);
+      ResponseUtil.error(res, 'Failed to export account data');
+    }
+  }
+}
@@ -4,6 +4,8 @@
  */
 
 import { logger } from '@/utils/logger';
+import { jwtKeyStore } from '@/config/jwks';
+import { GeoService } from '@/services/geo.service';
 
 logger.info('🚀 Starting Glyde Backend Server...');
 
@@ -34,3 +36,15 @@ process.on('SIGINT', () => {
   logger.info('SIGINT signal received: closing HTTP server');
   process.exit(0);
 });
+
+// Reload JWT signing keys after a rotation, and the geo IP table after an
+// update, without restarting
+process.on('SIGHUP', () => {
+  logger.info('SIGHUP signal received: reloading JWT signing keys');
+  try {
+    jwtKeyStore.reload();
+  } catch (error) {
+    logger.error('Keeping previous JWT signing keys:', error);
+  }
+  GeoService.reload();
+});
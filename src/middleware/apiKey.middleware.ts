@@ -0,0 +1,86 @@
+import { NextFunction, Request, Response } from 'express';
+import { JWTPayload } from '@/config/jwt';
+import User from '@/models/User.model';
+import { ApiKeyService } from '@/services/apiKey.service';
+import { PolicyService } from '@/services/policy.service';
+import { logger } from '@/utils/logger';
+import { ResponseUtil } from '@/utils/response';
+
+const API_KEY_HEADER = 'x-api-key';
+
+/**
+ * API Key Middleware
+ * Resolves the X-API-Key header before the IP rate limiter runs on routers
+ * that accept keys, so requests with a valid key are limited per key instead
+ * of per IP. Invalid, revoked or
+ * expired keys are rejected, as are keys whose owner no longer holds any of
+ * their scopes. A valid key exposes itself on res.locals.apiKey
+ * and its owner on res.locals.user and res.locals.auth; routes opt in to key
+ * access with authenticateUserOrApiKey. Requests without the header pass
+ * through untouched.
+ */
+export const apiKeyAuth = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  const rawKey = req.get(API_KEY_HEADER);
+  if (!rawKey) {
+    next();
+    return;
+  }
+
+  try {
+    const apiKey = await ApiKeyService.findUsableKey(rawKey.trim());
+    if (!apiKey) {
+      logger.warn('API key rejected', { path: req.path, ip: req.ip });
+      ResponseUtil.unauthorized(res, 'Invalid or expired API key');
+      return;
+    }
+
+    const owner = await User.findById(apiKey.owner);
+    if (!owner || owner.status !== 'ACTIVE') {
+      ResponseUtil.forbidden(res, 'The owner of this API key is not active');
+      return;
+    }
+
+    // Scopes the owner no longer holds are ignored by every permission check
+    const scopes = await PolicyService.resolveApiKeyScopes(apiKey, owner);
+    if (scopes.length === 0) {
+      ResponseUtil.forbidden(
+        res,
+        'The owner of this API key no longer holds any of its scopes'
+      );
+      return;
+    }
+    if (scopes.length < apiKey.scopes.length) {
+      logger.warn('API key scopes capped to its owner permissions', {
+        apiKeyId: String(apiKey._id),
+        ignored: apiKey.scopes.filter(scope => !scopes.includes(scope)),
+      });
+    }
+
+    const { allowed, limit, remaining } =
+      await ApiKeyService.consumeRateLimit(apiKey);
+    res.set('X-RateLimit-Limit', String(limit));
+    res.set('X-RateLimit-Remaining', String(remaining));
+    if (!allowed) {
+      ResponseUtil.rateLimitExceeded(
+        res,
+        'API key rate limit exceeded, please try again later.'
+      );
+      return;
+    }
+
+    await ApiKeyService.recordUsage(apiKey, req.ip || 'unknown');
+
+    const auth: JWTPayload = { userId: String(owner._id), role: owner.role };
+    res.locals['apiKey'] = apiKey;
+    res.locals['user'] = owner;
+    res.locals['auth'] = auth;
+    next();
+  } catch (error) {
+    logger.error('API key authentication failed', error);
+    ResponseUtil.error(res, 'API key authentication failed');
+  }
+};
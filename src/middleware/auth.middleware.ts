@@ -0,0 +1,299 @@
+import { NextFunction, Request, Response } from 'express';
+import { IUser } from '@/types/models';
+import { JWTPayload, MFA_SETUP_PURPOSE, jwtManager } from '@/config/jwt';
+import {
+  IMPERSONATION_BLOCKED_RESOURCES,
+  IMPERSONATOR_ROLES,
+} from '@/config/permissions';
+import { IApiKey } from '@/models/ApiKey.model';
+import User, { UserDocument } from '@/models/User.model';
+import { AuditService } from '@/services/audit.service';
+import { PolicyResource, PolicyService } from '@/services/policy.service';
+import { TokenService } from '@/services/token.service';
+import { logger } from '@/utils/logger';
+import { ResponseUtil } from '@/utils/response';
+
+/**
+ * Messages returned to users whose account is not active
+ */
+export const inactiveStatusMessages: Record<
+  Exclude<IUser['status'], 'ACTIVE'>,
+  string
+> = {
+  NEED_EMAIL_VERIFICATION: 'Please verify your email address',
+  NEED_PHONE_VERIFICATION: 'Please verify your phone number',
+  NEED_PASSWORD_RESET: 'You must reset your password',
+  TEMPORARY_BLOCKED: 'Your account is temporarily locked',
+  BLOCKED: 'Your account has been blocked',
+  DELETED: 'This account has been deleted',
+};
+
+/**
+ * Extract a bearer token from the Authorization header
+ */
+export const extractBearerToken = (req: Request): string | null => {
+  const header = req.headers.authorization;
+  if (!header || !header.startsWith('Bearer ')) {
+    return null;
+  }
+  return header.slice('Bearer '.length).trim() || null;
+};
+
+/**
+ * Authentication Middleware
+ * Verifies the bearer access token, loads the user and rejects accounts that
+ * are not ACTIVE. Exposes the token payload on res.locals.auth and the user
+ * document on res.locals.user. Impersonation tokens also need an active
+ * ADMIN or DEVELOPER actor, exposed on res.locals.actor, and every request
+ * made with them is audited.
+ */
+export const authenticate = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  const token = extractBearerToken(req);
+  if (!token) {
+    ResponseUtil.unauthorized(res, 'Access token is required');
+    return;
+  }
+
+  let auth: JWTPayload;
+  try {
+    auth = await TokenService.verifyAccessToken(token);
+  } catch (error) {
+    const message =
+      error instanceof Error ? error.message : 'Invalid access token';
+    logger.warn('Authentication failed', {
+      reason: message,
+      path: req.path,
+      method: req.method,
+    });
+    ResponseUtil.unauthorized(res, message);
+    return;
+  }
+
+  try {
+    const user: UserDocument | null = await User.findById(auth.userId);
+    if (!user) {
+      ResponseUtil.unauthorized(res, 'User no longer exists');
+      return;
+    }
+
+    if (user.status !== 'ACTIVE') {
+      ResponseUtil.forbidden(res, inactiveStatusMessages[user.status]);
+      return;
+    }
+
+    if (user.isTwoFactorRequired() && !user.twoFactor?.enabled) {
+      ResponseUtil.forbidden(
+        res,
+        'Two-factor authentication must be enabled for your account'
+      );
+      return;
+    }
+
+    if (auth.actorId) {
+      const actor: UserDocument | null = await User.findById(auth.actorId);
+      if (
+        !actor ||
+        actor.status !== 'ACTIVE' ||
+        !(IMPERSONATOR_ROLES as readonly string[]).includes(actor.role)
+      ) {
+        ResponseUtil.unauthorized(res, 'Impersonation is no longer allowed');
+        return;
+      }
+      await AuditService.recordImpersonatedRequest(req, res, auth);
+      res.locals['actor'] = actor;
+    }
+
+    res.locals['auth'] = auth;
+    res.locals['user'] = user;
+    next();
+  } catch (error) {
+    logger.error('Authentication failed', error);
+    ResponseUtil.error(res, 'Authentication failed');
+  }
+};
+
+/**
+ * Impersonation Guard Middleware
+ * Rejects requests made with an impersonation token. Use on routes that
+ * change credentials or otherwise must only be done by the account owner.
+ * Must run after authenticate.
+ */
+export const denyImpersonation = (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): void => {
+  const auth: JWTPayload | undefined = res.locals['auth'];
+  if (auth?.actorId) {
+    logger.warn('Action blocked during impersonation', {
+      actorId: auth.actorId,
+      userId: auth.userId,
+      path: req.path,
+      method: req.method,
+    });
+    ResponseUtil.forbidden(
+      res,
+      'This action is not allowed while impersonating a user'
+    );
+    return;
+  }
+  next();
+};
+
+/**
+ * User or API Key Authentication Middleware
+ * Accepts a request already authenticated by apiKeyAuth, otherwise falls back
+ * to authenticate. Use on routes that server-to-server clients may call.
+ */
+export const authenticateUserOrApiKey = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  if (res.locals['apiKey']) {
+    next();
+    return;
+  }
+  await authenticate(req, res, next);
+};
+
+/**
+ * Two-Factor Setup Authentication Middleware
+ * Accepts the mfa setup token handed out at login to users whose role
+ * requires 2FA, so they can enroll before receiving access tokens. Falls back
+ * to authenticate for users enrolling voluntarily. Only res.locals.user is set
+ * when the setup token is used.
+ */
+export const authenticateTwoFactorSetup = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  const mfaToken: string | undefined = req.body?.mfaToken;
+  if (!mfaToken) {
+    await authenticate(req, res, next);
+    return;
+  }
+
+  let userId: string;
+  try {
+    userId = jwtManager.verifyActionToken(mfaToken, MFA_SETUP_PURPOSE).userId;
+  } catch (error) {
+    ResponseUtil.unauthorized(
+      res,
+      error instanceof Error ? error.message : 'Invalid mfa token'
+    );
+    return;
+  }
+
+  try {
+    const user: UserDocument | null = await User.findById(userId);
+    if (!user || user.status !== 'ACTIVE') {
+      ResponseUtil.unauthorized(res, 'Invalid mfa token');
+      return;
+    }
+
+    res.locals['user'] = user;
+    next();
+  } catch (error) {
+    logger.error('Authentication failed', error);
+    ResponseUtil.error(res, 'Authentication failed');
+  }
+};
+
+/**
+ * Authorization Middleware Factory
+ * Allows the request through only when the authenticated user has one of the
+ * given roles. Must run after authenticate.
+ */
+export const authorize = (...roles: IUser['role'][]) => {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    const user: UserDocument | undefined = res.locals['user'];
+    if (!user) {
+      ResponseUtil.unauthorized(res, 'Authentication required');
+      return;
+    }
+
+    if (!roles.includes(user.role)) {
+      logger.warn('Authorization failed', {
+        userId: String(user._id),
+        role: user.role,
+        requiredRoles: roles,
+        path: req.path,
+        method: req.method,
+      });
+      ResponseUtil.forbidden(
+        res,
+        'You do not have permission to perform this action'
+      );
+      return;
+    }
+
+    next();
+  };
+};
+
+/**
+ * Permission Middleware Factory
+ * Allows the request through only when the authenticated user holds the
+ * permission, or for API key requests, when the key has it in its scopes. An
+ * optional resolver supplies the accessed resource so that `:own` grants can
+ * be checked against its owner. Impersonated sessions are always denied
+ * blocked resources such as payments. Must run after authenticate.
+ */
+export const requirePermission = (
+  action: string,
+  resolveResource?: (req: Request, res: Response) => PolicyResource
+) => {
+  return async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    const user: UserDocument | undefined = res.locals['user'];
+    const apiKey: IApiKey | undefined = res.locals['apiKey'];
+    if (!user) {
+      ResponseUtil.unauthorized(res, 'Authentication required');
+      return;
+    }
+
+    const auth: JWTPayload | undefined = res.locals['auth'];
+    const resourceName = action.split(':')[0] || '';
+    if (
+      auth?.actorId &&
+      IMPERSONATION_BLOCKED_RESOURCES.includes(resourceName)
+    ) {
+      ResponseUtil.forbidden(
+        res,
+        'This action is not allowed while impersonating a user'
+      );
+      return;
+    }
+
+    try {
+      const resource = resolveResource ? resolveResource(req, res) : undefined;
+      if (!(await PolicyService.can(apiKey || user, action, resource))) {
+        logger.warn('Permission denied', {
+          userId: String(user._id),
+          apiKeyId: apiKey ? String(apiKey._id) : undefined,
+          action,
+          path: req.path,
+          method: req.method,
+        });
+        ResponseUtil.forbidden(
+          res,
+          'You do not have permission to perform this action'
+        );
+        return;
+      }
+      next();
+    } catch (error) {
+      logger.error('Permission check failed', error);
+      ResponseUtil.error(res, 'Permission check failed');
+    }
+  };
+};
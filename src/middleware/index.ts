@@ -6,4 +6,17 @@
 // export { validationMiddleware } from './validation.middleware';
 // export { errorMiddleware } from './error.middleware';
 
+export {
+  authenticate,
+  authenticateTwoFactorSetup,
+  authenticateUserOrApiKey,
+  authorize,
+  denyImpersonation,
+  extractBearerToken,
+  inactiveStatusMessages,
+  requirePermission,
+} from './auth.middleware';
+export { apiKeyAuth } from './apiKey.middleware';
+export { getAllowedImageTypes, parseSingleFile } from './upload.middleware';
+
 export {};
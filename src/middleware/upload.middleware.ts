@@ -0,0 +1,63 @@
+import { NextFunction, Request, RequestHandler, Response } from 'express';
+import multer from 'multer';
+import { config } from '@/config';
+import { ValidationError } from '@/types/api';
+import { logger } from '@/utils/logger';
+import { ResponseUtil } from '@/utils/response';
+
+/**
+ * Image MIME types accepted for uploads, taken from config.upload
+ */
+export const getAllowedImageTypes = (): string[] =>
+  config.upload.allowedMimeTypes.filter(type => type.startsWith('image/'));
+
+/**
+ * Single File Parsing Middleware Factory
+ * Reads one file from a multipart field into memory (req.file). Files over
+ * config.upload.maxFileSize are cut off while parsing; type and size checks
+ * belong to validateFileUpload, chained after this middleware.
+ */
+export const parseSingleFile = (fieldName: string): RequestHandler => {
+  const upload = multer({
+    storage: multer.memoryStorage(),
+    limits: { fileSize: config.upload.maxFileSize, files: 1 },
+  }).single(fieldName);
+
+  return (req: Request, res: Response, next: NextFunction): void => {
+    upload(req, res, (error: unknown) => {
+      if (!error) {
+        next();
+        return;
+      }
+
+      if (!(error instanceof multer.MulterError)) {
+        logger.error('Failed to read uploaded file', error);
+        ResponseUtil.badRequest(res, 'Invalid multipart request');
+        return;
+      }
+
+      const validationError: ValidationError =
+        error.code === 'LIMIT_FILE_SIZE'
+          ? {
+              field: fieldName,
+              message: `File exceeds the maximum allowed size of ${config.upload.maxFileSize} bytes`,
+              code: 'FILE_TOO_LARGE',
+            }
+          : {
+              field: error.field || fieldName,
+              message: `Upload a single file in the "${fieldName}" field`,
+              code: 'INVALID_FILE',
+            };
+      logger.warn('File upload rejected', {
+        requestId: res.locals['requestId'],
+        code: error.code,
+        path: req.path,
+      });
+      ResponseUtil.validationError(
+        res,
+        [validationError],
+        'File validation failed'
+      );
+    });
+  };
+};
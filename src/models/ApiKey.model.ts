@@ -0,0 +1,99 @@
+import mongoose, { Document, Schema, Types } from 'mongoose';
+
+// Interface for ApiKey document
+export interface IApiKey extends Document {
+  name: string;
+  prefix: string;
+  keyHash: string;
+  owner: Types.ObjectId;
+  createdBy: Types.ObjectId;
+  scopes: string[];
+  rateLimit?: number;
+  expiresAt?: Date;
+  lastUsedAt?: Date;
+  lastUsedIp?: string;
+  revokedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+  isUsable(): boolean;
+}
+
+// ApiKey schema definition
+const apiKeySchema = new Schema<IApiKey>(
+  {
+    name: {
+      type: String,
+      required: [true, 'API key name is required'],
+      trim: true,
+      maxlength: [100, 'Name cannot exceed 100 characters'],
+    },
+    // First characters of the key, shown in listings to identify it
+    prefix: {
+      type: String,
+      required: true,
+    },
+    // SHA-256 hash of the full key; the key itself is never stored
+    keyHash: {
+      type: String,
+      required: true,
+      unique: true,
+    },
+    // User the key acts on behalf of, used for `:own` permission checks
+    owner: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'API key owner is required'],
+      index: true,
+    },
+    createdBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    // Permission grants, in the same format as role permissions
+    scopes: {
+      type: [String],
+      default: [],
+    },
+    // Requests per minute, overrides the default API key limit
+    rateLimit: {
+      type: Number,
+      min: [1, 'Rate limit must be at least 1'],
+    },
+    expiresAt: {
+      type: Date,
+    },
+    lastUsedAt: {
+      type: Date,
+    },
+    lastUsedIp: {
+      type: String,
+    },
+    revokedAt: {
+      type: Date,
+    },
+  },
+  {
+    timestamps: true,
+    versionKey: false,
+    toJSON: {
+      transform: function (_doc, ret: Partial<IApiKey>): Partial<IApiKey> {
+        delete ret.keyHash;
+        return ret;
+      },
+    },
+  }
+);
+
+// Instance method to check that the key is neither revoked nor expired
+apiKeySchema.methods['isUsable'] = function (): boolean {
+  if (this['revokedAt']) {
+    return false;
+  }
+  return !this['expiresAt'] || this['expiresAt'] > new Date();
+};
+
+// Create and export the model
+const ApiKey = mongoose.model<IApiKey>('ApiKey', apiKeySchema);
+
+export default ApiKey;
@@ -0,0 +1,74 @@
+import mongoose, { Document, Schema, Types } from 'mongoose';
+
+// Interface for AuditLog document
+export interface IAuditLog extends Document {
+  action: string;
+  actor: Types.ObjectId;
+  subject?: Types.ObjectId;
+  method?: string;
+  path?: string;
+  statusCode?: number;
+  ip?: string;
+  userAgent?: string;
+  tokenId?: string;
+  details?: Record<string, unknown>;
+  createdAt: Date;
+}
+
+// AuditLog schema definition
+const auditLogSchema = new Schema<IAuditLog>(
+  {
+    // e.g. impersonation.start, impersonation.request
+    action: {
+      type: String,
+      required: [true, 'Audit action is required'],
+    },
+    // User who performed the action
+    actor: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'Audit actor is required'],
+    },
+    // User the action was performed on or as
+    subject: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    },
+    method: {
+      type: String,
+    },
+    path: {
+      type: String,
+    },
+    statusCode: {
+      type: Number,
+    },
+    ip: {
+      type: String,
+    },
+    userAgent: {
+      type: String,
+    },
+    // jti of the access token the request was made with
+    tokenId: {
+      type: String,
+    },
+    details: {
+      type: Schema.Types.Mixed,
+    },
+  },
+  {
+    timestamps: { createdAt: true, updatedAt: false },
+    versionKey: false,
+  }
+);
+
+// Indexes
+auditLogSchema.index({ actor: 1, createdAt: -1 });
+auditLogSchema.index({ subject: 1, createdAt: -1 });
+auditLogSchema.index({ action: 1, createdAt: -1 });
+
+// Create and export the model
+const AuditLog = mongoose.model<IAuditLog>('AuditLog', auditLogSchema);
+
+export default AuditLog;
@@ -0,0 +1,124 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export type EmailOutboxStatus = 'PENDING' | 'SENDING' | 'SENT' | 'DEAD';
+
+// Binary content is stored base64 encoded
+export interface IEmailAttachment {
+  filename: string;
+  content: string;
+  encoding?: string;
+  contentType?: string;
+}
+
+// Interface for EmailOutbox document
+export interface IEmailOutbox extends Document {
+  to: string[];
+  subject: string;
+  html?: string;
+  text?: string;
+  attachments: IEmailAttachment[];
+  status: EmailOutboxStatus;
+  attempts: number;
+  nextAttemptAt: Date;
+  lockedAt?: Date;
+  lastError?: string;
+  messageId?: string;
+  sentAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Attachment schema
+const attachmentSchema = new Schema<IEmailAttachment>(
+  {
+    filename: {
+      type: String,
+      required: true,
+    },
+    content: {
+      type: String,
+      required: true,
+    },
+    encoding: {
+      type: String,
+    },
+    contentType: {
+      type: String,
+    },
+  },
+  { _id: false }
+);
+
+// EmailOutbox schema definition
+const emailOutboxSchema = new Schema<IEmailOutbox>(
+  {
+    to: {
+      type: [String],
+      required: [true, 'Recipient is required'],
+    },
+    subject: {
+      type: String,
+      required: [true, 'Subject is required'],
+    },
+    html: {
+      type: String,
+    },
+    text: {
+      type: String,
+    },
+    attachments: {
+      type: [attachmentSchema],
+      default: [],
+    },
+    // PENDING -> SENDING -> SENT, or DEAD once every attempt has failed
+    status: {
+      type: String,
+      enum: ['PENDING', 'SENDING', 'SENT', 'DEAD'],
+      default: 'PENDING',
+    },
+    attempts: {
+      type: Number,
+      default: 0,
+    },
+    nextAttemptAt: {
+      type: Date,
+      default: Date.now,
+    },
+    // Set while a worker is sending, used to recover from crashed workers
+    lockedAt: {
+      type: Date,
+    },
+    lastError: {
+      type: String,
+    },
+    messageId: {
+      type: String,
+    },
+    sentAt: {
+      type: Date,
+    },
+  },
+  {
+    timestamps: true,
+    versionKey: false,
+  }
+);
+
+// Indexes
+emailOutboxSchema.index({ status: 1, nextAttemptAt: 1 });
+emailOutboxSchema.index({ createdAt: -1 });
+// Messages may contain one-time codes, keep them for a week only. Every
+// status change touches updatedAt, so sent, dead and abandoned pending
+// messages all expire a week after they were last handled.
+emailOutboxSchema.index(
+  { updatedAt: 1 },
+  { expireAfterSeconds: 7 * 24 * 60 * 60 }
+);
+
+// Create and export the model
+const EmailOutbox = mongoose.model<IEmailOutbox>(
+  'EmailOutbox',
+  emailOutboxSchema
+);
+
+export default EmailOutbox;
@@ -0,0 +1,40 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+// Interface for Permission document
+export interface IPermission extends Document {
+  key: string;
+  description: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Permission schema definition
+const permissionSchema = new Schema<IPermission>(
+  {
+    key: {
+      type: String,
+      required: [true, 'Permission key is required'],
+      unique: true,
+      trim: true,
+      match: [
+        /^[a-z-]+:[a-z-]+$/,
+        'Permission key must use the resource:action format',
+      ],
+    },
+    description: {
+      type: String,
+      trim: true,
+      maxlength: [200, 'Description cannot exceed 200 characters'],
+      default: '',
+    },
+  },
+  {
+    timestamps: true,
+    versionKey: false,
+  }
+);
+
+// Create and export the model
+const Permission = mongoose.model<IPermission>('Permission', permissionSchema);
+
+export default Permission;
@@ -0,0 +1,53 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+// Interface for Role document
+export interface IRole extends Document {
+  name: string;
+  description: string;
+  permissions: string[];
+  isSystem: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Role schema definition
+const roleSchema = new Schema<IRole>(
+  {
+    name: {
+      type: String,
+      required: [true, 'Role name is required'],
+      unique: true,
+      trim: true,
+      lowercase: true,
+      match: [
+        /^[a-z][a-z0-9_]{1,49}$/,
+        'Role name can only contain lowercase letters, numbers and underscores',
+      ],
+    },
+    description: {
+      type: String,
+      trim: true,
+      maxlength: [200, 'Description cannot exceed 200 characters'],
+      default: '',
+    },
+    // Permission grants, e.g. users:block, rides:read:own, fleet:*, *
+    permissions: {
+      type: [String],
+      default: [],
+    },
+    // Built-in roles cannot be deleted or renamed
+    isSystem: {
+      type: Boolean,
+      default: false,
+    },
+  },
+  {
+    timestamps: true,
+    versionKey: false,
+  }
+);
+
+// Create and export the model
+const Role = mongoose.model<IRole>('Role', roleSchema);
+
+export default Role;
@@ -1,11 +1,23 @@
 /* eslint-disable @typescript-eslint/explicit-function-return-type */
 import { Document, Model, Schema, model } from 'mongoose';
 import bcrypt from 'bcryptjs';
-import { ILocation, IRating, IRideHistory, IUser } from '@/types/models';
+import crypto from 'crypto';
+import {
+  IKnownDevice,
+  ILinkedIdentity,
+  ILocation,
+  IRating,
+  IRideHistory,
+  IUser,
+  OtpPurpose,
+} from '@/types/models';
+import { TotpService } from '@/services/totp.service';
+import { config } from '@/config';
 
 export interface UserDocument extends IUser, Document {}
 export interface IUserModel extends Model<IUser> {
   findByEmailOrPhone(identifier: string): Promise<IUser | null>;
+  findByPasswordResetToken(token: string): Promise<UserDocument | null>;
 }
 
 // Location schema
@@ -76,6 +88,63 @@ const RideHistorySchema = new Schema<IRideHistory>({
   },
 });
 
+// Linked identity schema (external login providers)
+const LinkedIdentitySchema = new Schema<ILinkedIdentity>(
+  {
+    provider: {
+      type: String,
+      enum: ['google', 'facebook', 'github'],
+      required: true,
+    },
+    providerId: {
+      type: String,
+      required: true,
+    },
+    email: {
+      type: String,
+      trim: true,
+      lowercase: true,
+    },
+    linkedAt: {
+      type: Date,
+      default: Date.now,
+    },
+    lastUsedAt: {
+      type: Date,
+    },
+  },
+  { _id: false }
+);
+
+// Known device schema (devices and locations the user has logged in from)
+const KnownDeviceSchema = new Schema<IKnownDevice>(
+  {
+    device: {
+      type: String,
+      required: true,
+    },
+    ipPrefix: {
+      type: String,
+      required: true,
+    },
+    country: {
+      type: String,
+    },
+    region: {
+      type: String,
+    },
+    firstSeenAt: {
+      type: Date,
+      default: Date.now,
+    },
+    lastSeenAt: {
+      type: Date,
+      default: Date.now,
+    },
+  },
+  { _id: false }
+);
+
 // User schema
 const UserSchema = new Schema<UserDocument>(
   {
@@ -128,13 +197,22 @@ const UserSchema = new Schema<UserDocument>(
       },
       sparse: true,
     },
-    googleId: {
-      type: String,
-      sparse: true,
+    // Set once the number is confirmed by SMS, cleared when it changes
+    phoneVerifiedAt: {
+      type: Date,
+    },
+    identities: {
+      type: [LinkedIdentitySchema],
+      default: [],
+    },
+    // Used to alert the user about logins from new devices or locations
+    knownDevices: {
+      type: [KnownDeviceSchema],
+      default: [],
     },
     signupMethod: {
       type: String,
-      enum: ['EMAIL', 'PHONE', 'GOOGLE'],
+      enum: ['EMAIL', 'PHONE', 'GOOGLE', 'FACEBOOK', 'GITHUB'],
       required: true,
     },
     role: {
@@ -142,13 +220,72 @@ const UserSchema = new Schema<UserDocument>(
       enum: ['USER', 'ADMIN', 'DEVELOPER'],
       default: 'USER',
     },
+    // Additional RBAC roles on top of the base role
+    roles: [
+      {
+        type: Schema.Types.ObjectId,
+        ref: 'Role',
+      },
+    ],
     otp: {
-      code: {
+      codeHash: {
+        type: String,
+      },
+      purpose: {
         type: String,
+        enum: ['VERIFICATION', 'LOGIN', 'PASSWORD_RESET', 'PASSWORD_SETUP'],
       },
       expiresAt: {
         type: Date,
       },
+      attempts: {
+        type: Number,
+        default: 0,
+      },
+      lastSentAt: {
+        type: Date,
+      },
+      lockedUntil: {
+        type: Date,
+      },
+    },
+    // New address awaiting confirmation with the code in otp
+    pendingEmail: {
+      type: String,
+      trim: true,
+      lowercase: true,
+    },
+    passwordReset: {
+      tokenHash: {
+        type: String,
+      },
+      expiresAt: {
+        type: Date,
+      },
+    },
+    twoFactor: {
+      enabled: {
+        type: Boolean,
+        default: false,
+      },
+      // TOTP secrets are stored encrypted, see TotpService.encryptSecret
+      secret: {
+        type: String,
+      },
+      pendingSecret: {
+        type: String,
+      },
+      lastUsedStep: {
+        type: Number,
+      },
+      recoveryCodes: [
+        {
+          type: String,
+        },
+      ],
+      enabledAt: {
+        type: Date,
+      },
     },
     status: {
       type: String,
@@ -158,6 +295,7 @@ const UserSchema = new Schema<UserDocument>(
         'NEED_PASSWORD_RESET',
         'TEMPORARY_BLOCKED',
         'BLOCKED',
+        'DELETED',
         'ACTIVE',
       ],
       default: function (this: IUser) {
@@ -171,10 +309,39 @@ const UserSchema = new Schema<UserDocument>(
     blockedAt: {
       type: Date,
     },
+    // End of a TEMPORARY_BLOCKED period, released by BlockExpiryService
+    blockedUntil: {
+      type: Date,
+    },
+    // Reason given by the admin who blocked the account
+    blockReason: {
+      type: String,
+      maxlength: 500,
+    },
+    // Self-service deletion request, purged by AccountService once due
+    deletion: {
+      requestedAt: {
+        type: Date,
+      },
+      scheduledFor: {
+        type: Date,
+      },
+      // Set while the purge job anonymizes the account
+      purgeStartedAt: {
+        type: Date,
+      },
+    },
+    deletedAt: {
+      type: Date,
+    },
     image: {
       type: String,
       default: '',
     },
+    // Cloudinary asset behind image when the photo was uploaded
+    imagePublicId: {
+      type: String,
+    },
     location: {
       type: LocationSchema,
     },
@@ -199,6 +366,8 @@ const UserSchema = new Schema<UserDocument>(
       transform: function (_doc, ret) {
         delete ret.password;
         delete ret.otp;
+        delete ret.passwordReset;
+        ret.twoFactor = { enabled: !!ret.twoFactor?.enabled };
         return ret;
       },
     },
@@ -208,10 +377,19 @@ const UserSchema = new Schema<UserDocument>(
 // Indexes
 UserSchema.index({ email: 1 }, { sparse: true, unique: true });
 UserSchema.index({ phone: 1 }, { sparse: true, unique: true });
-UserSchema.index({ googleId: 1 }, { sparse: true, unique: true });
+UserSchema.index(
+  { 'identities.provider': 1, 'identities.providerId': 1 },
+  {
+    unique: true,
+    partialFilterExpression: { 'identities.providerId': { $exists: true } },
+  }
+);
 UserSchema.index({ location: '2dsphere' });
 UserSchema.index({ status: 1 });
 UserSchema.index({ signupMethod: 1 });
+UserSchema.index({ 'passwordReset.tokenHash': 1 }, { sparse: true });
+UserSchema.index({ 'deletion.scheduledFor': 1 }, { sparse: true });
+UserSchema.index({ status: 1, blockedUntil: 1 });
 
 // Pre-save middleware for password hashing
 UserSchema.pre('save', async function (next) {
@@ -237,6 +415,13 @@ UserSchema.pre('save', function (next) {
   next();
 });
 
+// Keyed so that a leaked hash of a 6-digit code cannot be brute-forced
+const hashOTP = (code: string): string =>
+  crypto
+    .createHmac('sha256', config.security.otpHashKey)
+    .update(code)
+    .digest('hex');
+
 // Instance method to compare password
 UserSchema.methods['comparePassword'] = async function (
   candidatePassword: string
@@ -248,28 +433,227 @@ UserSchema.methods['comparePassword'] = async function (
 };
 
 // Instance method to generate OTP
-UserSchema.methods['generateOTP'] = function (): {
+// The code comes from a CSPRNG and only its HMAC-SHA256 is stored
+UserSchema.methods['generateOTP'] = function (
+  purpose: OtpPurpose = 'VERIFICATION'
+): {
   code: string;
   expiresAt: Date;
 } {
-  const code = Math.floor(100000 + Math.random() * 900000).toString();
+  const code = crypto.randomInt(100000, 1000000).toString();
   const expiresAt = new Date(Date.now() + 10 * 60 * 1000); // 10 minutes
 
-  this['otp'] = { code, expiresAt };
+  this['otp'] = {
+    codeHash: hashOTP(code),
+    purpose,
+    expiresAt,
+    attempts: 0,
+    lastSentAt: new Date(),
+    lockedUntil: this['otp']?.lockedUntil,
+  };
   return { code, expiresAt };
 };
 
 // Instance method to validate OTP
-UserSchema.methods['isOTPValid'] = function (code: string): boolean {
-  if (!this['otp'] || !this['otp'].code || !this['otp'].expiresAt) {
+// Counts failed guesses and locks verification once the cap is reached;
+// the caller is responsible for saving the document afterwards
+// Codes stored before purposes existed were all sent for verification
+UserSchema.methods['isOTPValid'] = function (
+  code: string,
+  purpose: OtpPurpose = 'VERIFICATION'
+): boolean {
+  if (!this['otp'] || !this['otp'].codeHash || !this['otp'].expiresAt) {
+    return false;
+  }
+  if ((this['otp'].purpose || 'VERIFICATION') !== purpose) {
     return false;
   }
 
-  if (this['otp'].expiresAt < new Date()) {
+  if (this['isOTPLocked']() || this['otp'].expiresAt < new Date()) {
     return false;
   }
 
-  return this['otp'].code === code;
+  const expected = Buffer.from(this['otp'].codeHash, 'hex');
+  const received = Buffer.from(hashOTP(code), 'hex');
+  if (crypto.timingSafeEqual(expected, received)) {
+    return true;
+  }
+
+  this['otp'].attempts = (this['otp'].attempts || 0) + 1;
+  if (this['otp'].attempts >= config.security.otpMaxAttempts) {
+    this['otp'].codeHash = undefined;
+    this['otp'].lockedUntil = new Date(
+      Date.now() + config.security.lockoutDuration
+    );
+  }
+  return false;
+};
+
+// Instance method to check whether OTP verification is locked
+UserSchema.methods['isOTPLocked'] = function (): boolean {
+  return !!this['otp']?.lockedUntil && this['otp'].lockedUntil > new Date();
+};
+
+// Instance method to block the account until the given duration has passed
+// The caller is responsible for saving the document afterwards
+UserSchema.methods['blockTemporarily'] = function (
+  duration: number = config.security.lockoutDuration
+): Date {
+  const blockedAt = new Date();
+  const blockedUntil = new Date(blockedAt.getTime() + duration);
+  this['status'] = 'TEMPORARY_BLOCKED';
+  this['blockedAt'] = blockedAt;
+  this['blockedUntil'] = blockedUntil;
+  return blockedUntil;
+};
+
+// Instance method returning when a TEMPORARY_BLOCKED account is released
+// Accounts blocked before blockedUntil existed use the default lockout window
+UserSchema.methods['getBlockedUntil'] = function (): Date | null {
+  if (this['status'] !== 'TEMPORARY_BLOCKED') {
+    return null;
+  }
+  if (this['blockedUntil']) {
+    return this['blockedUntil'];
+  }
+  return new Date(
+    (this['blockedAt']?.getTime() || 0) + config.security.lockoutDuration
+  );
+};
+
+// Instance method returning the milliseconds left before a new OTP may be sent
+UserSchema.methods['getOTPResendCooldown'] = function (): number {
+  const lastSentAt: Date | undefined = this['otp']?.lastSentAt;
+  if (!lastSentAt) {
+    return 0;
+  }
+  const elapsed = Date.now() - lastSentAt.getTime();
+  return Math.max(0, config.security.otpResendCooldown - elapsed);
+};
+
+// Instance method to generate a single-use password reset token
+// Only the SHA-256 hash is stored; the raw token is returned for the email link
+UserSchema.methods['generatePasswordResetToken'] = function (): string {
+  const token = crypto.randomBytes(32).toString('hex');
+  const tokenHash = crypto.createHash('sha256').update(token).digest('hex');
+  const expiresAt = new Date(Date.now() + config.security.passwordResetExpiry);
+
+  this['passwordReset'] = { tokenHash, expiresAt };
+  return token;
+};
+
+// Instance method to record the last use of a linked identity
+UserSchema.methods['touchIdentity'] = function (
+  provider: ILinkedIdentity['provider']
+): void {
+  const identity = (this['identities'] as ILinkedIdentity[]).find(
+    i => i.provider === provider
+  );
+  if (identity) {
+    identity.lastUsedAt = new Date();
+  }
+};
+
+// Instance method to count the ways a user can sign in
+// A password counts as one method, each linked provider as another
+UserSchema.methods['countLoginMethods'] = function (): number {
+  return (
+    (this['password'] ? 1 : 0) +
+    (this['isPhoneVerified']() ? 1 : 0) +
+    (this['identities']?.length || 0)
+  );
+};
+
+// Instance method to check whether the phone number can receive login codes
+// Phone signups verified before phoneVerifiedAt existed are still trusted
+UserSchema.methods['isPhoneVerified'] = function (): boolean {
+  if (!this['phone'] || this['status'] === 'NEED_PHONE_VERIFICATION') {
+    return false;
+  }
+  return !!this['phoneVerifiedAt'] || this['signupMethod'] === 'PHONE';
+};
+
+// Instance method to check whether the user's base role must use 2FA
+UserSchema.methods['isTwoFactorRequired'] = function (): boolean {
+  return config.security.twoFactorRequiredRoles.includes(this['role']);
+};
+
+// Instance method to start TOTP enrollment
+// The secret stays pending until activateTwoFactor confirms a code from it
+UserSchema.methods['startTwoFactorEnrollment'] = function (): string {
+  const secret = TotpService.generateSecret();
+  this['twoFactor'] = {
+    enabled: false,
+    pendingSecret: TotpService.encryptSecret(secret),
+  };
+  return secret;
+};
+
+// Instance method to confirm enrollment with a code from the pending secret
+// Returns the plain recovery codes once, or null when the code is invalid
+UserSchema.methods['activateTwoFactor'] = function (
+  code: string
+): string[] | null {
+  const pendingSecret: string | undefined = this['twoFactor']?.pendingSecret;
+  if (!pendingSecret) {
+    return null;
+  }
+
+  const step = TotpService.verify(
+    TotpService.decryptSecret(pendingSecret),
+    code
+  );
+  if (step === null) {
+    return null;
+  }
+
+  const recoveryCodes = TotpService.generateRecoveryCodes();
+  this['twoFactor'] = {
+    enabled: true,
+    secret: pendingSecret,
+    lastUsedStep: step,
+    recoveryCodes: recoveryCodes.map(c => TotpService.hashRecoveryCode(c)),
+    enabledAt: new Date(),
+  };
+  return recoveryCodes;
+};
+
+// Instance method to check a TOTP or recovery code for an enrolled user
+// Used TOTP steps and recovery codes cannot be replayed; the caller must save
+UserSchema.methods['verifyTwoFactorCode'] = function (
+  code: string
+): 'totp' | 'recovery' | null {
+  const twoFactor = this['twoFactor'];
+  if (!twoFactor?.enabled || !twoFactor.secret) {
+    return null;
+  }
+
+  const step = TotpService.verify(
+    TotpService.decryptSecret(twoFactor.secret),
+    code,
+    twoFactor.lastUsedStep
+  );
+  if (step !== null) {
+    twoFactor.lastUsedStep = step;
+    return 'totp';
+  }
+
+  const codeHash = TotpService.hashRecoveryCode(code);
+  const index = (twoFactor.recoveryCodes || []).indexOf(codeHash);
+  if (index !== -1) {
+    twoFactor.recoveryCodes.splice(index, 1);
+    return 'recovery';
+  }
+  return null;
+};
+
+// Instance method to replace all recovery codes
+UserSchema.methods['regenerateRecoveryCodes'] = function (): string[] {
+  const recoveryCodes = TotpService.generateRecoveryCodes();
+  this['twoFactor'].recoveryCodes = recoveryCodes.map(c =>
+    TotpService.hashRecoveryCode(c)
+  );
+  return recoveryCodes;
 };
 
 // Static method to find user by email or phone
@@ -279,6 +663,15 @@ UserSchema.statics['findByEmailOrPhone'] = function (identifier: string) {
   return this.findOne(query);
 };
 
+// Static method to find a user by an unexpired password reset token
+UserSchema.statics['findByPasswordResetToken'] = function (token: string) {
+  const tokenHash = crypto.createHash('sha256').update(token).digest('hex');
+  return this.findOne({
+    'passwordReset.tokenHash': tokenHash,
+    'passwordReset.expiresAt': { $gt: new Date() },
+  });
+};
+
 // Validation for signup method requirements
 UserSchema.pre('validate', function (next) {
   if (this.signupMethod === 'EMAIL' && !this.email) {
@@ -289,8 +682,11 @@ UserSchema.pre('validate', function (next) {
     this.invalidate('phone', 'Phone is required for phone signup');
   }
 
-  if (this.signupMethod === 'GOOGLE' && !this.email) {
-    this.invalidate('email', 'Email is required for Google signup');
+  if (
+    ['GOOGLE', 'FACEBOOK', 'GITHUB'].includes(this.signupMethod) &&
+    !this.email
+  ) {
+    this.invalidate('email', 'Email is required for social signup');
   }
 
   next();
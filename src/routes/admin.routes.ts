@@ -0,0 +1,319 @@
+import { Router } from 'express';
+import {
+  AdminController,
+  ApiKeyController,
+  EmailOutboxController,
+  RoleController,
+} from '@/controllers/index';
+import {
+  authenticateUserOrApiKey,
+  authorize,
+  requirePermission,
+} from '@/middleware/auth.middleware';
+import { validate } from '@/middleware/validation';
+import {
+  createApiKeySchema,
+  listApiKeysSchema,
+  revokeApiKeySchema,
+} from '@/validations/apiKey.validation';
+import {
+  blockUserSchema,
+  changeUserRoleSchema,
+  impersonateUserSchema,
+  listUsersSchema,
+  userIdParamSchema,
+  userSessionParamSchema,
+} from '@/validations/admin.validation';
+import {
+  assignRolesSchema,
+  createRoleSchema,
+  deleteRoleSchema,
+  updateRoleSchema,
+} from '@/validations/role.validation';
+import {
+  emailIdParamSchema,
+  listEmailsSchema,
+} from '@/validations/emailOutbox.validation';
+
+const router = Router();
+
+// All admin routes require an authenticated user or API key; each route
+// checks the permission it needs
+router.use(authenticateUserOrApiKey);
+
+/**
+ * @route   GET /api/v1/admin/users
+ * @desc    List users with search, filters and pagination
+ * @access  Private (users:read)
+ * @query   page?, limit?, search?, status?, signupMethod?, role?, startDate?, endDate?, sort?, order?
+ */
+router.get(
+  '/users',
+  requirePermission('users:read'),
+  validate(listUsersSchema),
+  AdminController.listUsers
+);
+
+/**
+ * @route   GET /api/v1/admin/users/:id
+ * @desc    Get a user with roles, ride history and ratings
+ * @access  Private (users:read)
+ * @param   id - MongoDB ObjectId
+ */
+router.get(
+  '/users/:id',
+  requirePermission('users:read'),
+  validate(userIdParamSchema),
+  AdminController.getUser
+);
+
+/**
+ * @route   PATCH /api/v1/admin/users/:id/role
+ * @desc    Change the base role of a user and revoke their sessions
+ * @access  Private (roles:manage; ADMIN for staff roles)
+ * @param   id - MongoDB ObjectId
+ * @body    role - USER, ADMIN or DEVELOPER
+ */
+router.patch(
+  '/users/:id/role',
+  requirePermission('roles:manage'),
+  validate(changeUserRoleSchema),
+  AdminController.changeUserRole
+);
+
+/**
+ * @route   POST /api/v1/admin/users/:id/block
+ * @desc    Block a user and revoke their sessions
+ * @access  Private (users:block; ADMIN for staff accounts)
+ * @param   id - MongoDB ObjectId
+ * @body    reason, temporary?, durationMinutes (required when temporary)
+ */
+router.post(
+  '/users/:id/block',
+  requirePermission('users:block'),
+  validate(blockUserSchema),
+  AdminController.blockUser
+);
+
+/**
+ * @route   POST /api/v1/admin/users/:id/unblock
+ * @desc    Reactivate a blocked user
+ * @access  Private (users:block; ADMIN for staff accounts)
+ * @param   id - MongoDB ObjectId
+ */
+router.post(
+  '/users/:id/unblock',
+  requirePermission('users:block'),
+  validate(userIdParamSchema),
+  AdminController.unblockUser
+);
+
+/**
+ * @route   POST /api/v1/admin/users/:id/force-password-reset
+ * @desc    Force a user to reset their password on next login
+ * @access  Private (users:update)
+ * @param   id - MongoDB ObjectId
+ */
+router.post(
+  '/users/:id/force-password-reset',
+  requirePermission('users:update'),
+  validate(userIdParamSchema),
+  AdminController.forcePasswordReset
+);
+
+/**
+ * @route   POST /api/v1/admin/users/:id/impersonate
+ * @desc    Issue a short-lived, audited access token to act as a rider
+ * @access  Private (ADMIN, DEVELOPER)
+ * @param   id - MongoDB ObjectId
+ * @body    reason
+ */
+router.post(
+  '/users/:id/impersonate',
+  authorize('ADMIN', 'DEVELOPER'),
+  validate(impersonateUserSchema),
+  AdminController.impersonateUser
+);
+
+/**
+ * @route   GET /api/v1/admin/users/:id/sessions
+ * @desc    List the active sessions of a user
+ * @access  Private (users:read)
+ * @param   id - MongoDB ObjectId
+ */
+router.get(
+  '/users/:id/sessions',
+  requirePermission('users:read'),
+  validate(userIdParamSchema),
+  AdminController.listUserSessions
+);
+
+/**
+ * @route   DELETE /api/v1/admin/users/:id/sessions/:sessionId
+ * @desc    Revoke one session of a user
+ * @access  Private (sessions:revoke)
+ * @param   id - MongoDB ObjectId
+ * @param   sessionId - session UUID
+ */
+router.delete(
+  '/users/:id/sessions/:sessionId',
+  requirePermission('sessions:revoke'),
+  validate(userSessionParamSchema),
+  AdminController.revokeUserSession
+);
+
+/**
+ * @route   PUT /api/v1/admin/users/:id/roles
+ * @desc    Replace the additional roles assigned to a user
+ * @access  Private (roles:manage)
+ * @param   id - MongoDB ObjectId
+ * @body    roles - array of role ids
+ */
+router.put(
+  '/users/:id/roles',
+  requirePermission('roles:manage'),
+  validate(assignRolesSchema),
+  RoleController.assignUserRoles
+);
+
+/**
+ * @route   GET /api/v1/admin/permissions
+ * @desc    List the permission catalog
+ * @access  Private (roles:manage)
+ */
+router.get(
+  '/permissions',
+  requirePermission('roles:manage'),
+  RoleController.listPermissions
+);
+
+/**
+ * @route   GET /api/v1/admin/roles
+ * @desc    List all roles
+ * @access  Private (roles:manage)
+ */
+router.get(
+  '/roles',
+  requirePermission('roles:manage'),
+  RoleController.listRoles
+);
+
+/**
+ * @route   POST /api/v1/admin/roles
+ * @desc    Create a new role
+ * @access  Private (roles:manage)
+ * @body    name, description?, permissions
+ */
+router.post(
+  '/roles',
+  requirePermission('roles:manage'),
+  validate(createRoleSchema),
+  RoleController.createRole
+);
+
+/**
+ * @route   PATCH /api/v1/admin/roles/:id
+ * @desc    Update a custom role's description or permissions
+ * @access  Private (roles:manage)
+ * @param   id - MongoDB ObjectId
+ * @body    description?, permissions? (at least one required)
+ */
+router.patch(
+  '/roles/:id',
+  requirePermission('roles:manage'),
+  validate(updateRoleSchema),
+  RoleController.updateRole
+);
+
+/**
+ * @route   DELETE /api/v1/admin/roles/:id
+ * @desc    Delete a custom role
+ * @access  Private (roles:manage)
+ * @param   id - MongoDB ObjectId
+ */
+router.delete(
+  '/roles/:id',
+  requirePermission('roles:manage'),
+  validate(deleteRoleSchema),
+  RoleController.deleteRole
+);
+
+/**
+ * @route   GET /api/v1/admin/api-keys
+ * @desc    List API keys
+ * @access  Private (api-keys:manage)
+ * @query   ownerId?
+ */
+router.get(
+  '/api-keys',
+  requirePermission('api-keys:manage'),
+  validate(listApiKeysSchema),
+  ApiKeyController.listApiKeys
+);
+
+/**
+ * @route   POST /api/v1/admin/api-keys
+ * @desc    Create an API key for a server-to-server client
+ * @access  Private (api-keys:manage)
+ * @body    name, scopes, ownerId?, expiresAt?, rateLimit?
+ */
+router.post(
+  '/api-keys',
+  requirePermission('api-keys:manage'),
+  validate(createApiKeySchema),
+  ApiKeyController.createApiKey
+);
+
+/**
+ * @route   DELETE /api/v1/admin/api-keys/:id
+ * @desc    Revoke an API key
+ * @access  Private (api-keys:manage)
+ * @param   id - MongoDB ObjectId
+ */
+router.delete(
+  '/api-keys/:id',
+  requirePermission('api-keys:manage'),
+  validate(revokeApiKeySchema),
+  ApiKeyController.revokeApiKey
+);
+
+/**
+ * @route   GET /api/v1/admin/emails
+ * @desc    List queued, sent and dead emails
+ * @access  Private (emails:read)
+ * @query   status?, page?, limit?
+ */
+router.get(
+  '/emails',
+  requirePermission('emails:read'),
+  validate(listEmailsSchema),
+  EmailOutboxController.listEmails
+);
+
+/**
+ * @route   GET /api/v1/admin/emails/:id
+ * @desc    Get the delivery details and last error of an email
+ * @access  Private (emails:read)
+ * @param   id - MongoDB ObjectId
+ */
+router.get(
+  '/emails/:id',
+  requirePermission('emails:read'),
+  validate(emailIdParamSchema),
+  EmailOutboxController.getEmail
+);
+
+/**
+ * @route   POST /api/v1/admin/emails/:id/retry
+ * @desc    Queue a dead email for delivery again
+ * @access  Private (emails:retry)
+ * @param   id - MongoDB ObjectId
+ */
+router.post(
+  '/emails/:id/retry',
+  requirePermission('emails:retry'),
+  validate(emailIdParamSchema),
+  EmailOutboxController.retryEmail
+);
+
+export default router;
@@ -1,9 +1,38 @@
 import { Router } from 'express';
-import { AuthController } from '@/controllers/index';
+import {
+  AuthController,
+  IdentityController,
+  SessionController,
+  TwoFactorController,
+} from '@/controllers/index';
+import {
+  authenticate,
+  authenticateTwoFactorSetup,
+  denyImpersonation,
+} from '@/middleware/auth.middleware';
 import { validate } from '@/middleware/validation';
 import {
+  forgotPasswordValidation,
+  identityProviderValidation,
+  loginValidation,
+  magicLinkLoginValidation,
+  magicLinkRequestValidation,
+  phoneLoginRequestValidation,
+  phoneLoginValidation,
+  phoneSignupValidation,
+  refreshTokenValidation,
+  resendOtpValidation,
+  resetPasswordValidation,
+  secureAccountValidation,
+  sessionIdValidation,
+  setPasswordValidation,
   signupValidation,
+  twoFactorCodeValidation,
+  twoFactorEnableValidation,
+  twoFactorSetupValidation,
+  twoFactorVerifyValidation,
   verifyEmailValidation,
+  verifyPhoneValidation,
 } from '@/validations/auth.validation';
 
 const router = Router();
@@ -20,9 +49,9 @@ router.post('/user-signup', validate(signupValidation), AuthController.signup);
  * @route   POST /api/v1/auth/user-login
  * @desc    Login a user
  * @access  Public
- * @body    email, password
+ * @body    email | phone, password
  */
-// router.post('/user-login', validate(loginValidation), AuthController.login);
+router.post('/user-login', validate(loginValidation), AuthController.login);
 
 /**
  * @route   POST /api/v1/auth/verify-email
@@ -36,4 +65,346 @@ router.post(
   AuthController.verifyEmail
 );
 
+/**
+ * @route   POST /api/v1/auth/phone-signup
+ * @desc    Sign up a new user with a phone number
+ * @access  Public
+ * @body    phone, firstName?, lastName?, password?
+ */
+router.post(
+  '/phone-signup',
+  validate(phoneSignupValidation),
+  AuthController.phoneSignup
+);
+
+/**
+ * @route   POST /api/v1/auth/verify-phone
+ * @desc    Verify user phone number with the SMS code
+ * @access  Public
+ * @body    phone, otp
+ */
+router.post(
+  '/verify-phone',
+  validate(verifyPhoneValidation),
+  AuthController.verifyPhone
+);
+
+/**
+ * @route   POST /api/v1/auth/phone-login
+ * @desc    Send a login code to a verified phone number
+ * @access  Public
+ * @body    phone
+ */
+router.post(
+  '/phone-login',
+  validate(phoneLoginRequestValidation),
+  AuthController.requestPhoneLogin
+);
+
+/**
+ * @route   POST /api/v1/auth/phone-login/verify
+ * @desc    Log in with the code sent to the phone number
+ * @access  Public
+ * @body    phone, otp
+ */
+router.post(
+  '/phone-login/verify',
+  validate(phoneLoginValidation),
+  AuthController.phoneLogin
+);
+
+/**
+ * @route   POST /api/v1/auth/resend-otp
+ * @desc    Resend the email or phone verification code
+ * @access  Public
+ * @body    email | phone
+ */
+router.post(
+  '/resend-otp',
+  validate(resendOtpValidation),
+  AuthController.resendOtp
+);
+
+/**
+ * @route   POST /api/v1/auth/refresh
+ * @desc    Rotate a refresh token and issue a new token pair
+ * @access  Public
+ * @body    refreshToken
+ */
+router.post(
+  '/refresh',
+  validate(refreshTokenValidation),
+  AuthController.refresh
+);
+
+/**
+ * @route   POST /api/v1/auth/logout
+ * @desc    Revoke the current access token and its session
+ * @access  Private
+ */
+router.post('/logout', authenticate, AuthController.logout);
+
+/**
+ * @route   POST /api/v1/auth/logout-all
+ * @desc    Revoke all tokens of the current user on every device
+ * @access  Private
+ */
+router.post(
+  '/logout-all',
+  authenticate,
+  denyImpersonation,
+  AuthController.logoutAll
+);
+
+/**
+ * @route   POST /api/v1/auth/forgot-password
+ * @desc    Send a password reset link by email, or a reset code by SMS
+ * @access  Public
+ * @body    email | phone
+ */
+router.post(
+  '/forgot-password',
+  validate(forgotPasswordValidation),
+  AuthController.forgotPassword
+);
+
+/**
+ * @route   POST /api/v1/auth/reset-password
+ * @desc    Reset the password using a reset token or an SMS reset code
+ * @access  Public
+ * @body    token | phone + otp, password
+ */
+router.post(
+  '/reset-password',
+  validate(resetPasswordValidation),
+  AuthController.resetPassword
+);
+
+/**
+ * @route   POST /api/v1/auth/magic-link
+ * @desc    Send a single-use login link to the user's email
+ * @access  Public
+ * @body    email
+ */
+router.post(
+  '/magic-link',
+  validate(magicLinkRequestValidation),
+  AuthController.requestMagicLink
+);
+
+/**
+ * @route   POST /api/v1/auth/magic-link/verify
+ * @desc    Log in with the token from a magic link
+ * @access  Public
+ * @body    token
+ */
+router.post(
+  '/magic-link/verify',
+  validate(magicLinkLoginValidation),
+  AuthController.magicLinkLogin
+);
+
+/**
+ * @route   POST /api/v1/auth/secure-account
+ * @desc    "This wasn't me" from a login alert: sign out and force a reset
+ * @access  Public
+ * @body    token
+ */
+router.post(
+  '/secure-account',
+  validate(secureAccountValidation),
+  AuthController.secureAccount
+);
+
+/**
+ * @route   GET /api/v1/auth/google
+ * @desc    Start Google OAuth login
+ * @access  Public
+ */
+router.get('/google', AuthController.oauthStart('google'));
+
+/**
+ * @route   GET /api/v1/auth/google/callback
+ * @desc    Google OAuth callback, redirects to the frontend with a token pair
+ * @access  Public
+ */
+router.get('/google/callback', AuthController.oauthCallback('google'));
+
+/**
+ * @route   GET /api/v1/auth/facebook
+ * @desc    Start Facebook OAuth login
+ * @access  Public
+ */
+router.get('/facebook', AuthController.oauthStart('facebook'));
+
+/**
+ * @route   GET /api/v1/auth/facebook/callback
+ * @desc    Facebook OAuth callback, redirects to the frontend with a token pair
+ * @access  Public
+ */
+router.get('/facebook/callback', AuthController.oauthCallback('facebook'));
+
+/**
+ * @route   GET /api/v1/auth/github
+ * @desc    Start GitHub OAuth login
+ * @access  Public
+ */
+router.get('/github', AuthController.oauthStart('github'));
+
+/**
+ * @route   GET /api/v1/auth/github/callback
+ * @desc    GitHub OAuth callback, redirects to the frontend with a token pair
+ * @access  Public
+ */
+router.get('/github/callback', AuthController.oauthCallback('github'));
+
+/**
+ * @route   GET /api/v1/auth/identities
+ * @desc    List the login methods linked to the current user
+ * @access  Private
+ */
+router.get('/identities', authenticate, IdentityController.listIdentities);
+
+/**
+ * @route   POST /api/v1/auth/identities/password
+ * @desc    Email a code that confirms adding a password to an OAuth account
+ * @access  Private
+ */
+router.post(
+  '/identities/password',
+  authenticate,
+  denyImpersonation,
+  IdentityController.requestPasswordSetup
+);
+
+/**
+ * @route   POST /api/v1/auth/identities/password/confirm
+ * @desc    Add a password with the emailed confirmation code
+ * @access  Private
+ * @body    otp, password
+ */
+router.post(
+  '/identities/password/confirm',
+  authenticate,
+  denyImpersonation,
+  validate(setPasswordValidation),
+  IdentityController.setPassword
+);
+
+/**
+ * @route   POST /api/v1/auth/identities/:provider/link
+ * @desc    Get the provider URL that links an OAuth account to the current user
+ * @access  Private
+ * @param   provider - google | facebook | github
+ */
+router.post(
+  '/identities/:provider/link',
+  authenticate,
+  denyImpersonation,
+  validate(identityProviderValidation),
+  IdentityController.createLinkUrl
+);
+
+/**
+ * @route   DELETE /api/v1/auth/identities/:provider
+ * @desc    Unlink an OAuth provider from the current user
+ * @access  Private
+ * @param   provider - google | facebook | github
+ */
+router.delete(
+  '/identities/:provider',
+  authenticate,
+  denyImpersonation,
+  validate(identityProviderValidation),
+  IdentityController.unlinkIdentity
+);
+
+/**
+ * @route   GET /api/v1/auth/sessions
+ * @desc    List the devices the current user is logged in on
+ * @access  Private
+ */
+router.get('/sessions', authenticate, SessionController.listSessions);
+
+/**
+ * @route   DELETE /api/v1/auth/sessions/:sessionId
+ * @desc    Log the current user out of one device
+ * @access  Private
+ * @param   sessionId - session UUID
+ */
+router.delete(
+  '/sessions/:sessionId',
+  authenticate,
+  validate(sessionIdValidation),
+  SessionController.revokeSession
+);
+
+/**
+ * @route   POST /api/v1/auth/2fa/verify
+ * @desc    Complete a login with a TOTP or recovery code
+ * @access  Public
+ * @body    mfaToken, code
+ */
+router.post(
+  '/2fa/verify',
+  validate(twoFactorVerifyValidation),
+  TwoFactorController.verify
+);
+
+/**
+ * @route   POST /api/v1/auth/2fa/setup
+ * @desc    Start TOTP enrollment and get the provisioning URI
+ * @access  Private (or mfa setup token from login)
+ * @body    mfaToken?
+ */
+router.post(
+  '/2fa/setup',
+  validate(twoFactorSetupValidation),
+  authenticateTwoFactorSetup,
+  denyImpersonation,
+  TwoFactorController.setup
+);
+
+/**
+ * @route   POST /api/v1/auth/2fa/enable
+ * @desc    Confirm TOTP enrollment and get recovery codes
+ * @access  Private (or mfa setup token from login)
+ * @body    code, mfaToken?
+ */
+router.post(
+  '/2fa/enable',
+  validate(twoFactorEnableValidation),
+  authenticateTwoFactorSetup,
+  denyImpersonation,
+  TwoFactorController.enable
+);
+
+/**
+ * @route   POST /api/v1/auth/2fa/disable
+ * @desc    Turn off two-factor authentication
+ * @access  Private
+ * @body    code
+ */
+router.post(
+  '/2fa/disable',
+  authenticate,
+  denyImpersonation,
+  validate(twoFactorCodeValidation),
+  TwoFactorController.disable
+);
+
+/**
+ * @route   POST /api/v1/auth/2fa/recovery-codes
+ * @desc    Replace the recovery codes
+ * @access  Private
+ * @body    code
+ */
+router.post(
+  '/2fa/recovery-codes',
+  authenticate,
+  denyImpersonation,
+  validate(twoFactorCodeValidation),
+  TwoFactorController.regenerateRecoveryCodes
+);
+
 export default router;
@@ -7,5 +7,7 @@
 // export { fileRoutes } from './file.routes';
 export { default as testRoutes } from './test.routes';
 export { default as authRoutes } from './auth.routes';
+export { default as adminRoutes } from './admin.routes';
+export { default as userRoutes } from './user.routes';
 
 export {};
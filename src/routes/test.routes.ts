@@ -1,5 +1,6 @@
 import { Router } from 'express';
 import { TestController } from '@/controllers/index';
+import { authenticate } from '@/middleware/auth.middleware';
 import { validate } from '@/middleware/validation';
 import {
   createTestSchema,
@@ -11,10 +12,13 @@ import {
 
 const router = Router();
 
+// All test routes require an authenticated user
+router.use(authenticate);
+
 /**
  * @route   GET /api/v1/tests
  * @desc    Get all test records with pagination and search
- * @access  Public (can be changed to protected later)
+ * @access  Private
  * @query   page, limit, search, sortBy, sortOrder
  */
 router.get('/', validate(getAllTestsSchema), TestController.getAllTests);
@@ -22,7 +26,7 @@ router.get('/', validate(getAllTestsSchema), TestController.getAllTests);
 /**
  * @route   GET /api/v1/tests/:id
  * @desc    Get a single test record by ID
- * @access  Public (can be changed to protected later)
+ * @access  Private
  * @param   id - MongoDB ObjectId
  */
 router.get('/:id', validate(getTestByIdSchema), TestController.getTestById);
@@ -30,7 +34,7 @@ router.get('/:id', validate(getTestByIdSchema), TestController.getTestById);
 /**
  * @route   POST /api/v1/tests
  * @desc    Create a new test record
- * @access  Public (can be changed to protected later)
+ * @access  Private
  * @body    firstName, lastName
  */
 router.post('/', validate(createTestSchema), TestController.createTest);
@@ -38,7 +42,7 @@ router.post('/', validate(createTestSchema), TestController.createTest);
 /**
  * @route   PUT /api/v1/tests/:id
  * @desc    Update a test record by ID
- * @access  Public (can be changed to protected later)
+ * @access  Private
  * @param   id - MongoDB ObjectId
  * @body    firstName?, lastName? (at least one required)
  */
@@ -47,7 +51,7 @@ router.put('/:id', validate(updateTestSchema), TestController.updateTest);
 /**
  * @route   DELETE /api/v1/tests/:id
  * @desc    Delete a test record by ID
- * @access  Public (can be changed to protected later)
+ * @access  Private
  * @param   id - MongoDB ObjectId
  */
 router.delete('/:id', validate(deleteTestSchema), TestController.deleteTest);
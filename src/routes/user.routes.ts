@@ -0,0 +1,129 @@
+import { Router } from 'express';
+import { UserController } from '@/controllers/index';
+import { config } from '@/config';
+import { authenticate, denyImpersonation } from '@/middleware/auth.middleware';
+import {
+  getAllowedImageTypes,
+  parseSingleFile,
+} from '@/middleware/upload.middleware';
+import { validate, validateFileUpload } from '@/middleware/validation';
+import {
+  changePasswordSchema,
+  confirmEmailChangeSchema,
+  requestDeletionSchema,
+  requestEmailChangeSchema,
+  updateProfileSchema,
+} from '@/validations/user.validation';
+
+const router = Router();
+
+// Routes for the signed-in user's own account
+const meRouter = Router();
+router.use('/me', authenticate, meRouter);
+
+/**
+ * @route   GET /api/v1/users/me
+ * @desc    Get the signed-in user's profile
+ * @access  Private
+ */
+meRouter.get('/', UserController.getProfile);
+
+/**
+ * @route   PATCH /api/v1/users/me
+ * @desc    Update the name, image or phone number (phone needs re-verification)
+ * @access  Private
+ * @body    firstName, lastName, phone, image (at least one)
+ */
+meRouter.patch(
+  '/',
+  validate(updateProfileSchema),
+  UserController.updateProfile
+);
+
+/**
+ * @route   PUT /api/v1/users/me/avatar
+ * @desc    Upload a profile photo (multipart field "image")
+ * @access  Private
+ * @body    image (file: JPEG, PNG, GIF or WebP)
+ */
+meRouter.put(
+  '/avatar',
+  parseSingleFile('image'),
+  validateFileUpload(getAllowedImageTypes(), config.upload.maxFileSize, true),
+  UserController.uploadAvatar
+);
+
+/**
+ * @route   DELETE /api/v1/users/me/avatar
+ * @desc    Remove the profile photo
+ * @access  Private
+ */
+meRouter.delete('/avatar', UserController.deleteAvatar);
+
+/**
+ * @route   POST /api/v1/users/me/password
+ * @desc    Change the password and sign out other devices
+ * @access  Private
+ * @body    currentPassword, newPassword
+ */
+meRouter.post(
+  '/password',
+  denyImpersonation,
+  validate(changePasswordSchema),
+  UserController.changePassword
+);
+
+/**
+ * @route   POST /api/v1/users/me/email
+ * @desc    Send a code to a new email address and a notice to the current one
+ * @access  Private
+ * @body    newEmail, password (required when the account has one)
+ */
+meRouter.post(
+  '/email',
+  denyImpersonation,
+  validate(requestEmailChangeSchema),
+  UserController.requestEmailChange
+);
+
+/**
+ * @route   POST /api/v1/users/me/email/confirm
+ * @desc    Confirm the new email address and sign out other devices
+ * @access  Private
+ * @body    otp
+ */
+meRouter.post(
+  '/email/confirm',
+  denyImpersonation,
+  validate(confirmEmailChangeSchema),
+  UserController.confirmEmailChange
+);
+
+/**
+ * @route   POST /api/v1/users/me/deletion
+ * @desc    Schedule the account for deletion after the grace period
+ * @access  Private
+ * @body    password (required when the account has one)
+ */
+meRouter.post(
+  '/deletion',
+  denyImpersonation,
+  validate(requestDeletionSchema),
+  UserController.requestDeletion
+);
+
+/**
+ * @route   DELETE /api/v1/users/me/deletion
+ * @desc    Cancel a pending account deletion
+ * @access  Private
+ */
+meRouter.delete('/deletion', denyImpersonation, UserController.cancelDeletion);
+
+/**
+ * @route   GET /api/v1/users/me/export
+ * @desc    Download a JSON archive of the account data
+ * @access  Private
+ */
+meRouter.get('/export', denyImpersonation, UserController.exportData);
+
+export default router;
@@ -8,7 +8,7 @@ import { createServer } from 'http';
 import { Server as SocketIOServer } from 'socket.io';
 import dotenv from 'dotenv';
 import path from 'path';
-import { logger } from '@/utils/logger';
+import { logger, morganStream } from '@/utils/logger';
 
 // Load environment variables
 dotenv.config();
@@ -29,8 +29,19 @@ logger.info('✅ Environment variables loaded');
 
 // Import services
 import { WebSocketService } from '@/services/websocket.service';
+import { config } from '@/config';
 import { connectDatabase } from '@/config/database';
-import { authRoutes, testRoutes } from '@/routes';
+import { connectRedis } from '@/config/redis';
+import { emailManager } from '@/config/email';
+import { jwtManager } from '@/config/jwt';
+import { passport, setupPassport } from '@/config/passport';
+import { PolicyService } from '@/services/policy.service';
+import { AccountService } from '@/services/account.service';
+import { BlockExpiryService } from '@/services/blockExpiry.service';
+import { EmailOutboxService } from '@/services/emailOutbox.service';
+import { SchedulerService } from '@/services/scheduler.service';
+import { apiKeyAuth } from '@/middleware/apiKey.middleware';
+import { adminRoutes, authRoutes, testRoutes, userRoutes } from '@/routes';
 // import { connectDatabase } from './config';
 
 logger.info('✅ All imports loaded successfully');
@@ -74,7 +85,12 @@ class Server {
         ],
         credentials: true,
         methods: ['GET', 'POST', 'PUT', 'DELETE', 'PATCH', 'OPTIONS'],
-        allowedHeaders: ['Content-Type', 'Authorization'],
+        allowedHeaders: [
+          'Content-Type',
+          'Authorization',
+          'X-Device-Name',
+          'X-API-Key',
+        ],
       })
     );
 
@@ -85,7 +101,13 @@ class Server {
       message: 'Too many requests from this IP, please try again later.',
       standardHeaders: true,
       legacyHeaders: false,
+      // Requests with a valid API key are limited per key by apiKeyAuth
+      skip: (_req, res) => !!res.locals['apiKey'],
     });
+    // Keys are only resolved for the routers that accept them through
+    // authenticateUserOrApiKey, so a key never lifts the IP limit elsewhere
+    const apiVersion = process.env['API_VERSION'] || 'v1';
+    this.app.use(`/api/${apiVersion}/admin`, apiKeyAuth);
     this.app.use('/api/', limiter);
 
     // Body parsing middleware
@@ -97,9 +119,9 @@ class Server {
 
     // Logging middleware
     if (process.env['NODE_ENV'] === 'development') {
-      this.app.use(morgan('dev'));
+      this.app.use(morgan('dev', { stream: morganStream }));
     } else {
-      this.app.use(morgan('combined'));
+      this.app.use(morgan('combined', { stream: morganStream }));
     }
 
     // Static files
@@ -108,8 +130,8 @@ class Server {
       express.static(path.join(__dirname, '../uploads'))
     );
 
-    // Passport initialization (will be uncommented when passport config is ready)
-    // this.app.use(passport.initialize());
+    // Passport initialization
+    this.app.use(passport.initialize());
   }
 
   private initializeRoutes(): void {
@@ -124,6 +146,12 @@ class Server {
       });
     });
 
+    // Public signing keys for services that verify Glyde access tokens
+    this.app.get('/.well-known/jwks.json', (_req, res) => {
+      res.set('Cache-Control', 'public, max-age=300');
+      res.status(200).json(jwtManager.getJwks());
+    });
+
     // API routes (will be uncommented when routes are created)
     const apiVersion = process.env['API_VERSION'] || 'v1';
     // this.app.use(`/api/${apiVersion}/auth`, authRoutes);
@@ -131,6 +159,8 @@ class Server {
     // this.app.use(`/api/${apiVersion}/files`, fileRoutes);
     this.app.use(`/api/${apiVersion}/tests`, testRoutes);
     this.app.use(`/api/${apiVersion}/auth`, authRoutes);
+    this.app.use(`/api/${apiVersion}/admin`, adminRoutes);
+    this.app.use(`/api/${apiVersion}/users`, userRoutes);
 
     // Root endpoint
     this.app.get('/', (_req, res) => {
@@ -203,10 +233,44 @@ class Server {
       await connectDatabase();
       logger.info('✅ Database connected successfully');
 
-      // Setup passport strategies (will be uncommented when passport config is ready)
-      // setupPassport();
+      // Connect to Redis (login attempt tracking, token state)
+      await connectRedis();
+      logger.info('✅ Redis connected successfully');
+
+      // Seed the permission catalog and built-in roles
+      await PolicyService.seedDefaults();
+
+      // Initialize the email transporter (verification, password reset)
+      await emailManager.initialize();
+
+      // Setup passport strategies
+      setupPassport();
       logger.info('✅ Passport strategies configured');
 
+      // Start background jobs (email outbox, account purge, block expiry)
+      SchedulerService.register(
+        'email-outbox',
+        config.emailOutbox.pollInterval,
+        async () => {
+          await EmailOutboxService.processPending();
+        }
+      );
+      SchedulerService.register(
+        'purge-deleted-accounts',
+        config.security.accountPurgeInterval,
+        async () => {
+          await AccountService.purgeDueAccounts();
+        }
+      );
+      SchedulerService.register(
+        'release-temporary-blocks',
+        config.security.blockExpiryInterval,
+        async () => {
+          await BlockExpiryService.releaseExpired();
+        }
+      );
+      SchedulerService.start();
+
       // Start the server
       this.httpServer.listen(this.port, () => {
         logger.info(`🚀 Server is running on port ${this.port}`);
@@ -0,0 +1,201 @@
+import { config, emailManager } from '@/config';
+import ApiKey from '@/models/ApiKey.model';
+import AuditLog from '@/models/AuditLog.model';
+import EmailOutbox from '@/models/EmailOutbox.model';
+import Role from '@/models/Role.model';
+import User, { UserDocument } from '@/models/User.model';
+import { AvatarService } from '@/services/avatar.service';
+import { TokenService } from '@/services/token.service';
+import { logger, loggerUtils } from '@/utils/logger';
+
+/**
+ * Account Service
+ * Handles self-service account deletion and data export. A deletion request
+ * starts a grace period during which it can be cancelled; once it ends the
+ * scheduled purge anonymizes the account. The user document is kept so that
+ * ride history and rating aggregates stay available for accounting.
+ */
+export class AccountService {
+  private static readonly purgeBatchSize = 100;
+  private static readonly purgeTimeout = 10 * 60 * 1000; // 10 minutes
+
+  /**
+   * Schedule the deletion of an account at the end of the grace period
+   * @returns the date the account will be purged
+   */
+  public static async scheduleDeletion(user: UserDocument): Promise<Date> {
+    const requestedAt = new Date();
+    const scheduledFor = new Date(
+      requestedAt.getTime() + config.security.accountDeletionGracePeriod
+    );
+
+    user.deletion = { requestedAt, scheduledFor };
+    await user.save();
+    return scheduledFor;
+  }
+
+  /**
+   * Cancel a pending deletion request
+   */
+  public static async cancelDeletion(user: UserDocument): Promise<void> {
+    user.set('deletion', undefined);
+    await user.save();
+  }
+
+  /**
+   * Anonymize every account whose grace period has ended
+   * Accounts are claimed one at a time with an atomic update, so several API
+   * instances can run the job side by side without purging an account twice.
+   * A claim left behind by a failed or crashed purge is retried once it is
+   * older than purgeTimeout.
+   * @returns the number of purged accounts
+   */
+  public static async purgeDueAccounts(): Promise<number> {
+    let purged = 0;
+    for (let i = 0; i < this.purgeBatchSize; i++) {
+      const user = await this.claimNextDue();
+      if (!user) {
+        break;
+      }
+      try {
+        await this.anonymize(user);
+        purged++;
+      } catch (error) {
+        logger.error('Failed to purge account', {
+          userId: String(user._id),
+          error,
+        });
+      }
+    }
+
+    if (purged > 0) {
+      logger.info(`Purged ${purged} deleted account(s)`);
+    }
+    return purged;
+  }
+
+  /**
+   * Remove the personal data of an account and mark it as DELETED
+   * Ride history keeps its ride, driver, status and date but loses the pickup
+   * and drop-off locations; ratings keep their score but lose the comment.
+   */
+  public static async anonymize(user: UserDocument): Promise<void> {
+    const userId = String(user._id);
+    const email = user.email;
+    const userName = `${user.firstName} ${user.lastName}`;
+    const imagePublicId = user.imagePublicId;
+
+    user.firstName = 'Deleted';
+    user.lastName = 'User';
+    user.identities = [];
+    user.knownDevices = [];
+    user.roles = [];
+    user.image = '';
+    for (const field of [
+      'email',
+      'password',
+      'phone',
+      'otp',
+      'pendingEmail',
+      'passwordReset',
+      'twoFactor',
+      'location',
+      'imagePublicId',
+    ]) {
+      user.set(field, undefined);
+    }
+    (user.rideHistory || []).forEach((_ride, index) => {
+      user.set(`rideHistory.${index}.pickupLocation`, undefined);
+      user.set(`rideHistory.${index}.dropOffLocation`, undefined);
+    });
+    (user.ratings || []).forEach((_rating, index) => {
+      user.set(`ratings.${index}.comment`, undefined);
+    });
+    user.status = 'DELETED';
+    user.deletedAt = new Date();
+
+    // Email and password validators do not hold for anonymized accounts
+    await user.save({ validateBeforeSave: false });
+    await TokenService.revokeAllForUser(userId);
+    await ApiKey.updateMany(
+      { owner: user._id, revokedAt: { $exists: false } },
+      { $set: { revokedAt: new Date() } }
+    );
+    if (imagePublicId) {
+      await AvatarService.deleteAsset(imagePublicId);
+    }
+    loggerUtils.logAuth('account_deleted', userId);
+
+    if (email) {
+      const isSent = await emailManager.sendAccountDeletionNotification(
+        email,
+        userName
+      );
+      if (!isSent) {
+        logger.error('Unable to send the account deletion notification', {
+          userId,
+        });
+      }
+    }
+  }
+
+  private static async claimNextDue(): Promise<UserDocument | null> {
+    const now = new Date();
+    const staleBefore = new Date(now.getTime() - this.purgeTimeout);
+
+    return await User.findOneAndUpdate(
+      {
+        'deletion.scheduledFor': { $lte: now },
+        status: { $ne: 'DELETED' },
+        $or: [
+          { 'deletion.purgeStartedAt': { $exists: false } },
+          { 'deletion.purgeStartedAt': { $lte: staleBefore } },
+        ],
+      },
+      { $set: { 'deletion.purgeStartedAt': now } },
+      { new: true, sort: { 'deletion.scheduledFor': 1 } }
+    );
+  }
+
+  /**
+   * Collect everything stored about a user into a JSON-serializable archive
+   */
+  public static async exportData(
+    user: UserDocument
+  ): Promise<Record<string, unknown>> {
+    const userId = String(user._id);
+    const addresses = [user.email, user.pendingEmail].filter(
+      (address): address is string => !!address
+    );
+    const [roles, apiKeys, sessions, actions, actionsOnAccount, emails] =
+      await Promise.all([
+        Role.find({ _id: { $in: user.roles || [] } }).select(
+          'name description'
+        ),
+        ApiKey.find({ owner: user._id }),
+        TokenService.listSessions(userId),
+        AuditLog.find({ actor: user._id })
+          .select('-tokenId')
+          .sort({ createdAt: -1 }),
+        // Staff actions on the account, without details about the staff member
+        AuditLog.find({ subject: user._id, actor: { $ne: user._id } })
+          .select('action method path statusCode details createdAt')
+          .sort({ createdAt: -1 }),
+        addresses.length > 0
+          ? EmailOutbox.find({ to: { $in: addresses } })
+              .select('-attachments.content -lockedAt')
+              .sort({ createdAt: -1 })
+          : [],
+      ]);
+
+    return {
+      exportedAt: new Date().toISOString(),
+      account: user.toJSON(),
+      roles,
+      apiKeys,
+      sessions,
+      auditLog: { actions, actionsOnAccount },
+      emails,
+    };
+  }
+}
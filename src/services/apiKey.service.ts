@@ -0,0 +1,73 @@
+import crypto from 'crypto';
+import { config } from '@/config';
+import { redisManager } from '@/config/redis';
+import ApiKey, { IApiKey } from '@/models/ApiKey.model';
+
+/**
+ * API Key Service
+ * Generates and looks up API keys for server-to-server clients and enforces
+ * their per-key rate limits. Keys are shown once at creation and only their
+ * SHA-256 hash is stored.
+ */
+export class ApiKeyService {
+  private static readonly keyPrefix = 'glyde_';
+  private static readonly rateLimitPrefix = 'rate-limit:api-key:';
+  private static readonly usageWriteInterval = 60 * 1000; // 1 minute
+
+  /**
+   * Generate a new key with the prefix and hash to store
+   */
+  public static generate(): { key: string; prefix: string; keyHash: string } {
+    const key = `${this.keyPrefix}${crypto.randomBytes(32).toString('base64url')}`;
+    return {
+      key,
+      prefix: key.slice(0, this.keyPrefix.length + 8),
+      keyHash: this.hash(key),
+    };
+  }
+
+  /**
+   * Find the usable key matching a raw key
+   */
+  public static async findUsableKey(rawKey: string): Promise<IApiKey | null> {
+    if (!rawKey.startsWith(this.keyPrefix)) {
+      return null;
+    }
+    const apiKey = await ApiKey.findOne({ keyHash: this.hash(rawKey) });
+    return apiKey && apiKey.isUsable() ? apiKey : null;
+  }
+
+  /**
+   * Count a request against the key's per-minute limit
+   */
+  public static async consumeRateLimit(
+    apiKey: IApiKey
+  ): Promise<{ allowed: boolean; limit: number; remaining: number }> {
+    const limit = apiKey.rateLimit || config.security.apiKeyRateLimit;
+    const { count, allowed } = await redisManager.incrementRateLimit(
+      `${this.rateLimitPrefix}${String(apiKey._id)}`,
+      60,
+      limit
+    );
+    return { allowed, limit, remaining: Math.max(0, limit - count) };
+  }
+
+  /**
+   * Record when and from where a key was last used
+   * Writes at most once a minute per key to keep hot keys cheap.
+   */
+  public static async recordUsage(apiKey: IApiKey, ip: string): Promise<void> {
+    const lastUsedAt = apiKey.lastUsedAt?.getTime() || 0;
+    if (Date.now() - lastUsedAt < this.usageWriteInterval) {
+      return;
+    }
+    await ApiKey.updateOne(
+      { _id: apiKey._id },
+      { lastUsedAt: new Date(), lastUsedIp: ip }
+    );
+  }
+
+  private static hash(key: string): string {
+    return crypto.createHash('sha256').update(key).digest('hex');
+  }
+}
@@ -0,0 +1,73 @@
+import { Request, Response } from 'express';
+import { JWTPayload } from '@/config/jwt';
+import AuditLog from '@/models/AuditLog.model';
+import { logger } from '@/utils/logger';
+
+/**
+ * Audit entry to record
+ */
+export interface AuditEntry {
+  action: string;
+  actorId: string;
+  subjectId?: string | undefined;
+  details?: Record<string, unknown>;
+}
+
+/**
+ * Audit Service
+ * Writes an append-only trail of sensitive actions to the AuditLog
+ * collection, including every request made with an impersonation token.
+ */
+export class AuditService {
+  /**
+   * Record an action, optionally with the details of the request it came from
+   */
+  public static async record(entry: AuditEntry, req?: Request): Promise<void> {
+    await AuditLog.create({
+      action: entry.action,
+      actor: entry.actorId,
+      subject: entry.subjectId,
+      details: entry.details,
+      ...(req && {
+        method: req.method,
+        path: req.originalUrl,
+        ip: req.ip,
+        userAgent: req.get('user-agent'),
+      }),
+    });
+  }
+
+  /**
+   * Record a request made with an impersonation token
+   * The entry is written before the request is handled, so a failure here
+   * stops the request; the status code is added once the response finishes.
+   */
+  public static async recordImpersonatedRequest(
+    req: Request,
+    res: Response,
+    auth: JWTPayload
+  ): Promise<void> {
+    const entry = await AuditLog.create({
+      action: 'impersonation.request',
+      actor: auth.actorId,
+      subject: auth.userId,
+      method: req.method,
+      path: req.originalUrl,
+      ip: req.ip,
+      userAgent: req.get('user-agent'),
+      tokenId: auth.jti,
+    });
+
+    res.on('finish', () => {
+      AuditLog.updateOne(
+        { _id: entry._id },
+        { $set: { statusCode: res.statusCode } }
+      ).catch(error => {
+        logger.error('Failed to update the impersonation audit log', {
+          auditLogId: String(entry._id),
+          error,
+        });
+      });
+    });
+  }
+}
@@ -0,0 +1,112 @@
+import { cloudinaryManager } from '@/config/cloudinary';
+import { UserDocument } from '@/models/User.model';
+import { logger } from '@/utils/logger';
+
+/**
+ * Thumbnail URLs of a profile photo
+ */
+export interface AvatarThumbnails {
+  small: string;
+  medium: string;
+  large: string;
+}
+
+export interface Avatar {
+  image: string;
+  thumbnails: AvatarThumbnails;
+}
+
+/**
+ * Avatar Service
+ * Stores profile photos in Cloudinary under a folder per user and keeps the
+ * URL on User.image and the asset id on User.imagePublicId. Replacing or
+ * removing a photo deletes the previous asset.
+ */
+export class AvatarService {
+  /**
+   * Whether uploads can be stored
+   */
+  public static isEnabled(): boolean {
+    return cloudinaryManager.isReady();
+  }
+
+  /**
+   * Upload a new profile photo and delete the previous one
+   */
+  public static async upload(
+    user: UserDocument,
+    buffer: Buffer
+  ): Promise<Avatar> {
+    const previousPublicId = user.imagePublicId;
+    const result = await cloudinaryManager.uploadImage(buffer, {
+      folder: `glyde-backend/users/${String(user._id)}`,
+      resource_type: 'image',
+      transformation: [
+        { width: 800, height: 800, crop: 'limit' },
+        { quality: 'auto:good' },
+        { fetch_format: 'auto' },
+      ],
+    });
+
+    user.image = result.secure_url;
+    user.imagePublicId = result.public_id;
+    try {
+      await user.save();
+    } catch (error) {
+      // Do not leave an orphaned asset behind
+      await this.deleteAsset(result.public_id);
+      throw error;
+    }
+
+    if (previousPublicId && previousPublicId !== result.public_id) {
+      await this.deleteAsset(previousPublicId);
+    }
+    return this.describe(result.secure_url, result.public_id);
+  }
+
+  /**
+   * Remove the profile photo of a user
+   */
+  public static async remove(user: UserDocument): Promise<void> {
+    const publicId = user.imagePublicId;
+    user.image = '';
+    user.set('imagePublicId', undefined);
+    await user.save();
+    if (publicId) {
+      await this.deleteAsset(publicId);
+    }
+  }
+
+  /**
+   * Build the URLs returned for a stored photo
+   */
+  public static describe(image: string, publicId?: string): Avatar {
+    // Photos set by URL have no asset to derive thumbnails from
+    const thumbnail = (size: number): string =>
+      publicId && this.isEnabled()
+        ? cloudinaryManager.generateThumbnailUrl(publicId, size, size)
+        : image;
+    return {
+      image,
+      thumbnails: {
+        small: thumbnail(64),
+        medium: thumbnail(150),
+        large: thumbnail(400),
+      },
+    };
+  }
+
+  /**
+   * Delete an asset, logging failures instead of throwing
+   */
+  public static async deleteAsset(publicId: string): Promise<void> {
+    try {
+      await cloudinaryManager.deleteImage(publicId);
+    } catch (error) {
+      logger.error('Failed to delete profile photo from Cloudinary', {
+        publicId,
+        error,
+      });
+    }
+  }
+}
@@ -0,0 +1,115 @@
+import { FilterQuery } from 'mongoose';
+import { config, emailManager } from '@/config';
+import User, { UserDocument } from '@/models/User.model';
+import { LoginAttemptService } from '@/services/loginAttempt.service';
+import { logger, loggerUtils } from '@/utils/logger';
+
+/**
+ * Block Expiry Service
+ * Reactivates TEMPORARY_BLOCKED accounts once their block has ended and
+ * emails the owner. This is the only place blocks are released. Accounts are
+ * released one at a time with an atomic update, so several API instances, and
+ * logins that find an expired block, never release or notify the same account
+ * twice.
+ */
+export class BlockExpiryService {
+  private static readonly batchSize = 100;
+  private static readonly releaseUpdate = {
+    $set: { status: 'ACTIVE' },
+    $unset: { blockedAt: 1, blockedUntil: 1, blockReason: 1 },
+  };
+
+  /**
+   * Release a batch of expired temporary blocks
+   * @returns the number of released accounts
+   */
+  public static async releaseExpired(): Promise<number> {
+    let released = 0;
+    for (let i = 0; i < this.batchSize; i++) {
+      const user = await this.releaseNext();
+      if (!user) {
+        break;
+      }
+      released++;
+      await this.afterRelease(user);
+    }
+
+    if (released > 0) {
+      logger.info(`Released ${released} temporarily blocked account(s)`);
+    }
+    return released;
+  }
+
+  /**
+   * Release the block of one account if it has ended
+   * Shares the atomic update of the scheduled job, so a login that finds an
+   * expired block and the job cannot both release and notify.
+   * @returns the released account, or null when the block is still active or
+   * was already released
+   */
+  public static async release(
+    user: UserDocument
+  ): Promise<UserDocument | null> {
+    const released = await User.findOneAndUpdate(
+      { _id: user._id, ...this.expiredFilter() },
+      this.releaseUpdate,
+      { new: true }
+    );
+    if (released) {
+      await this.afterRelease(released);
+    }
+    return released;
+  }
+
+  private static async releaseNext(): Promise<UserDocument | null> {
+    return await User.findOneAndUpdate(
+      this.expiredFilter(),
+      this.releaseUpdate,
+      { new: true, sort: { blockedUntil: 1 } }
+    );
+  }
+
+  private static expiredFilter(): FilterQuery<UserDocument> {
+    const now = new Date();
+    // Accounts blocked before blockedUntil existed use the default lockout
+    const legacyBlockedBefore = new Date(
+      now.getTime() - config.security.lockoutDuration
+    );
+
+    return {
+      status: 'TEMPORARY_BLOCKED',
+      $or: [
+        { blockedUntil: { $lte: now } },
+        {
+          blockedUntil: { $exists: false },
+          blockedAt: { $lte: legacyBlockedBefore },
+        },
+      ],
+    };
+  }
+
+  private static async afterRelease(user: UserDocument): Promise<void> {
+    const userId = String(user._id);
+    try {
+      await LoginAttemptService.resetUser(userId);
+      loggerUtils.logAuth('temporary_block_expired', userId, user.email);
+
+      if (user.email) {
+        const isSent = await emailManager.sendAccountUnlockedNotification(
+          user.email,
+          `${user.firstName} ${user.lastName}`
+        );
+        if (!isSent) {
+          logger.error('Unable to send the account unlocked notification', {
+            userId,
+          });
+        }
+      }
+    } catch (error) {
+      logger.error('Failed to finish releasing a temporary block', {
+        userId,
+        error,
+      });
+    }
+  }
+}
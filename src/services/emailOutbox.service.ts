@@ -0,0 +1,128 @@
+import { EmailOptions, config, emailManager } from '@/config';
+import EmailOutbox, { IEmailOutbox } from '@/models/EmailOutbox.model';
+import { logger } from '@/utils/logger';
+
+/**
+ * Email Outbox Service
+ * Delivers emails queued by EmailManager.sendEmail. Messages are claimed one
+ * at a time so that several API instances can run the worker side by side.
+ * Failed sends are retried with exponential backoff and marked DEAD after
+ * the last attempt; messages left in SENDING by a crashed worker are picked up
+ * again once the sending timeout has passed.
+ */
+export class EmailOutboxService {
+  /**
+   * Deliver a batch of due messages
+   * @returns the number of messages sent
+   */
+  public static async processPending(): Promise<number> {
+    if (!emailManager.isEmailServiceConfigured()) {
+      logger.debug('Email service not configured, outbox left untouched');
+      return 0;
+    }
+
+    let sent = 0;
+    for (let i = 0; i < config.emailOutbox.batchSize; i++) {
+      const message = await this.claimNext();
+      if (!message) {
+        break;
+      }
+      if (await this.deliver(message)) {
+        sent++;
+      }
+    }
+    return sent;
+  }
+
+  /**
+   * Queue a DEAD message again with a fresh set of attempts
+   * @returns the message, or null when it does not exist or is not DEAD
+   */
+  public static async retry(id: string): Promise<IEmailOutbox | null> {
+    return await EmailOutbox.findOneAndUpdate(
+      { _id: id, status: 'DEAD' },
+      {
+        $set: { status: 'PENDING', attempts: 0, nextAttemptAt: new Date() },
+        $unset: { lockedAt: 1 },
+      },
+      { new: true }
+    );
+  }
+
+  private static async claimNext(): Promise<IEmailOutbox | null> {
+    const now = new Date();
+    const staleBefore = new Date(
+      now.getTime() - config.emailOutbox.sendingTimeout
+    );
+
+    return await EmailOutbox.findOneAndUpdate(
+      {
+        $or: [
+          { status: 'PENDING', nextAttemptAt: { $lte: now } },
+          { status: 'SENDING', lockedAt: { $lte: staleBefore } },
+        ],
+      },
+      { $set: { status: 'SENDING', lockedAt: now } },
+      { new: true, sort: { nextAttemptAt: 1 } }
+    );
+  }
+
+  private static async deliver(message: IEmailOutbox): Promise<boolean> {
+    const options: EmailOptions = {
+      to: message.to,
+      subject: message.subject,
+      attachments: message.attachments.map(attachment => ({
+        filename: attachment.filename,
+        content: attachment.content,
+        ...(attachment.encoding && { encoding: attachment.encoding }),
+        ...(attachment.contentType && {
+          contentType: attachment.contentType,
+        }),
+      })),
+    };
+    if (message.html) {
+      options.html = message.html;
+    }
+    if (message.text) {
+      options.text = message.text;
+    }
+
+    try {
+      message.messageId = await emailManager.deliverEmail(options);
+      message.status = 'SENT';
+      message.sentAt = new Date();
+      message.set('lockedAt', undefined);
+      await message.save();
+      return true;
+    } catch (error) {
+      const attempts = message.attempts + 1;
+      const isDead = attempts >= config.emailOutbox.maxAttempts;
+
+      message.attempts = attempts;
+      message.lastError =
+        error instanceof Error ? error.message : 'Unknown error';
+      message.status = isDead ? 'DEAD' : 'PENDING';
+      message.nextAttemptAt = new Date(
+        Date.now() + config.emailOutbox.retryBaseDelay * 2 ** (attempts - 1)
+      );
+      message.set('lockedAt', undefined);
+      await message.save();
+
+      if (isDead) {
+        logger.error('Email moved to dead letter after last attempt', {
+          outboxId: String(message._id),
+          attempts,
+          error: message.lastError,
+        });
+      } else {
+        logger.warn('Email delivery failed, will retry', {
+          outboxId: String(message._id),
+          attempts,
+          nextAttemptAt: message.nextAttemptAt,
+          error: message.lastError,
+        });
+      }
+      return false;
+    }
+  }
+}
@@ -0,0 +1,113 @@
+import fs from 'fs';
+import path from 'path';
+import { config } from '@/config';
+import { logger } from '@/utils/logger';
+
+/**
+ * Coarse location of an IP address
+ */
+export interface GeoLocation {
+  country: string;
+  region?: string;
+}
+
+interface GeoRange extends GeoLocation {
+  start: number;
+  end: number;
+}
+
+/**
+ * Geo Service
+ * Resolves IPv4 addresses to a country and region using a local CSV table of
+ * `startIp,endIp,country,region` rows (config.security.geoIpTable), so no
+ * third-party service sees user IPs. The table is loaded on first use; without
+ * one every lookup returns null.
+ */
+export class GeoService {
+  private static ranges: GeoRange[] | null = null;
+
+  /**
+   * Look up the location of an IP address
+   */
+  public static lookup(ip: string): GeoLocation | null {
+    const value = this.ipv4ToNumber(ip);
+    if (value === null) {
+      return null;
+    }
+
+    const ranges = this.loadRanges();
+    let low = 0;
+    let high = ranges.length - 1;
+    while (low <= high) {
+      const middle = (low + high) >> 1;
+      const range = ranges[middle]!;
+      if (value < range.start) {
+        high = middle - 1;
+      } else if (value > range.end) {
+        low = middle + 1;
+      } else {
+        return range.region
+          ? { country: range.country, region: range.region }
+          : { country: range.country };
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Drop the loaded table so that it is read again on the next lookup
+   */
+  public static reload(): void {
+    this.ranges = null;
+  }
+
+  private static loadRanges(): GeoRange[] {
+    if (this.ranges) {
+      return this.ranges;
+    }
+
+    const filePath = path.resolve(process.cwd(), config.security.geoIpTable);
+    const ranges: GeoRange[] = [];
+    try {
+      const lines = fs.readFileSync(filePath, 'utf8').split(/\r?\n/);
+      for (const line of lines) {
+        if (!line.trim() || line.startsWith('#') || line.startsWith('start')) {
+          continue;
+        }
+        const [startIp = '', endIp = '', country = '', region = ''] = line
+          .split(',')
+          .map(field => field.trim());
+        const start = this.ipv4ToNumber(startIp);
+        const end = this.ipv4ToNumber(endIp);
+        if (start === null || end === null || !country) {
+          continue;
+        }
+        ranges.push(
+          region ? { start, end, country, region } : { start, end, country }
+        );
+      }
+      logger.info(`Loaded ${ranges.length} geo IP ranges from ${filePath}`);
+    } catch (error) {
+      logger.warn('Geo IP table not available, locations are unknown', {
+        filePath,
+        reason: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+
+    this.ranges = ranges.sort((a, b) => a.start - b.start);
+    return this.ranges;
+  }
+
+  private static ipv4ToNumber(ip: string): number | null {
+    const match =
+      /^(?:::ffff:)?(\d{1,3})\.(\d{1,3})\.(\d{1,3})\.(\d{1,3})$/i.exec(ip);
+    if (!match) {
+      return null;
+    }
+    const octets = match.slice(1).map(Number);
+    if (octets.some(octet => octet > 255)) {
+      return null;
+    }
+    return octets.reduce((value, octet) => value * 256 + octet, 0);
+  }
+}
@@ -7,4 +7,21 @@
 // export { FileService } from './file.service';
 // export { EmailService } from './email.service';
 
+export { AccountService } from './account.service';
+export { ApiKeyService } from './apiKey.service';
+export { AuditService } from './audit.service';
+export { AvatarService } from './avatar.service';
+export { BlockExpiryService } from './blockExpiry.service';
+export { EmailOutboxService } from './emailOutbox.service';
+export { GeoService } from './geo.service';
+export { LoginAlertService } from './loginAlert.service';
+export { LoginAttemptService } from './loginAttempt.service';
+export { MagicLinkService } from './magicLink.service';
+export { MfaTokenService } from './mfaToken.service';
+export { PolicyService } from './policy.service';
+export { SchedulerService } from './scheduler.service';
+export { SessionService } from './session.service';
+export { TokenService } from './token.service';
+export { TotpService } from './totp.service';
+
 export {};
@@ -0,0 +1,269 @@
+import { randomUUID } from 'crypto';
+import { config, emailManager } from '@/config';
+import { jwtManager } from '@/config/jwt';
+import { redisManager } from '@/config/redis';
+import { UserDocument } from '@/models/User.model';
+import { IKnownDevice } from '@/types/models';
+import { GeoService } from '@/services/geo.service';
+import { SessionClient } from '@/services/session.service';
+import { logger, loggerUtils } from '@/utils/logger';
+
+// Purpose of the action token behind the "this wasn't me" link
+export const LOGIN_ALERT_PURPOSE = 'login_alert';
+
+/**
+ * Device, network and coarse location of a login
+ */
+export type LoginFingerprint = Pick<
+  IKnownDevice,
+  'device' | 'ipPrefix' | 'country' | 'region'
+>;
+
+export interface LoginAlert {
+  userId: string;
+  device: string;
+  ipPrefix: string;
+}
+
+/**
+ * Login Alert Service
+ * Keeps a history of the devices and locations each user logs in from and
+ * emails the user when a login comes from one that was not seen before. The
+ * email carries a single-use "this wasn't me" link. The very first login of
+ * an account is recorded without an alert.
+ */
+export class LoginAlertService {
+  private static readonly alertPrefix = 'login-alert:';
+
+  /**
+   * Link lifetime in seconds, derived from config.security.loginAlertLinkExpiry
+   */
+  private static get expirySeconds(): number {
+    return Math.ceil(config.security.loginAlertLinkExpiry / 1000);
+  }
+
+  /**
+   * Build the fingerprint of a login from the client details
+   */
+  public static fingerprint(client: SessionClient): LoginFingerprint {
+    const fingerprint: LoginFingerprint = {
+      device: this.describeDevice(client.userAgent),
+      ipPrefix: this.ipPrefix(client.ip),
+    };
+    const location = GeoService.lookup(client.ip);
+    if (location) {
+      fingerprint.country = location.country;
+      if (location.region) {
+        fingerprint.region = location.region;
+      }
+    }
+    return fingerprint;
+  }
+
+  /**
+   * Record a successful login and alert the user when the device or location
+   * is new. Failures are logged and never block the login.
+   */
+  public static async recordLogin(
+    user: UserDocument,
+    client: SessionClient
+  ): Promise<void> {
+    const userId = String(user._id);
+    try {
+      const fingerprint = this.fingerprint(client);
+      const history = user.knownDevices || [];
+      const isFirstLogin = history.length === 0;
+      const isNewDevice = !history.some(
+        known => known.device === fingerprint.device
+      );
+      const isNewLocation = !history.some(
+        known => this.locationKey(known) === this.locationKey(fingerprint)
+      );
+
+      this.remember(user, fingerprint);
+      await user.save();
+
+      if (isFirstLogin || (!isNewDevice && !isNewLocation)) {
+        return;
+      }
+
+      loggerUtils.logAuth(
+        isNewDevice ? 'login_alert:new_device' : 'login_alert:new_location',
+        userId,
+        user.email,
+        client.ip
+      );
+      await this.sendAlert(user, fingerprint);
+    } catch (error) {
+      logger.error('Failed to check login for a new device', {
+        userId,
+        error,
+      });
+    }
+  }
+
+  /**
+   * Verify a "this wasn't me" token and mark it as used
+   * The reported device is forgotten so that a later login from it alerts
+   * again.
+   * @returns the user id and reported device, or null when the token is
+   * invalid, expired or used
+   */
+  public static async consume(token: string): Promise<LoginAlert | null> {
+    let jti: string | undefined;
+    try {
+      ({ jti } = jwtManager.verifyActionToken(token, LOGIN_ALERT_PURPOSE));
+    } catch {
+      return null;
+    }
+    if (!jti) {
+      return null;
+    }
+
+    const alert: LoginAlert | null = await redisManager.get(this.alertKey(jti));
+    // Deleting the key is the single-use check: only one request can remove it
+    const removed = await redisManager.del(this.alertKey(jti));
+    return removed > 0 ? alert : null;
+  }
+
+  /**
+   * Remove a device and network from the user's history
+   */
+  public static forget(user: UserDocument, alert: LoginAlert): void {
+    user.knownDevices = (user.knownDevices || []).filter(
+      known =>
+        known.device !== alert.device || known.ipPrefix !== alert.ipPrefix
+    );
+  }
+
+  private static async sendAlert(
+    user: UserDocument,
+    fingerprint: LoginFingerprint
+  ): Promise<void> {
+    if (!user.email) {
+      return;
+    }
+
+    const userId = String(user._id);
+    const jti = randomUUID();
+    const token = jwtManager.generateActionToken(
+      { userId, jti },
+      LOGIN_ALERT_PURPOSE,
+      this.expirySeconds
+    );
+    const alert: LoginAlert = {
+      userId,
+      device: fingerprint.device,
+      ipPrefix: fingerprint.ipPrefix,
+    };
+    await redisManager.set(this.alertKey(jti), alert, this.expirySeconds);
+
+    const secureAccountUrl = `${config.urls.frontend}/secure-account?token=${token}`;
+    const location = fingerprint.country
+      ? [fingerprint.region, fingerprint.country].filter(Boolean).join(', ')
+      : `Unknown (network ${fingerprint.ipPrefix})`;
+    const isEmailSent = await emailManager.sendNewDeviceLoginNotification(
+      user.email,
+      `${user.firstName} ${user.lastName}`,
+      fingerprint.device,
+      location,
+      secureAccountUrl
+    );
+    if (!isEmailSent) {
+      logger.error('Unable to send the new device login alert', { userId });
+    }
+  }
+
+  /**
+   * Update the matching history entry or add a new one, keeping only the most
+   * recently seen entries
+   */
+  private static remember(
+    user: UserDocument,
+    fingerprint: LoginFingerprint
+  ): void {
+    const now = new Date();
+    const history = user.knownDevices || [];
+    const existing = history.find(
+      known =>
+        known.device === fingerprint.device &&
+        known.ipPrefix === fingerprint.ipPrefix
+    );
+
+    if (existing) {
+      existing.lastSeenAt = now;
+      if (fingerprint.country) {
+        existing.country = fingerprint.country;
+      }
+      if (fingerprint.region) {
+        existing.region = fingerprint.region;
+      }
+    } else {
+      history.push({ ...fingerprint, firstSeenAt: now, lastSeenAt: now });
+    }
+
+    user.knownDevices = history
+      .sort((a, b) => b.lastSeenAt.getTime() - a.lastSeenAt.getTime())
+      .slice(0, config.security.maxKnownDevices);
+  }
+
+  /**
+   * Location used for comparisons: the geo location when known, otherwise
+   * the network prefix
+   */
+  private static locationKey(fingerprint: LoginFingerprint): string {
+    return fingerprint.country
+      ? `${fingerprint.country}/${fingerprint.region || ''}`
+      : fingerprint.ipPrefix;
+  }
+
+  /**
+   * First three octets of an IPv4 address or first three groups of an IPv6
+   * address
+   */
+  private static ipPrefix(ip: string): string {
+    const ipv4 = /^(?:::ffff:)?(\d{1,3}\.\d{1,3}\.\d{1,3})\.\d{1,3}$/i.exec(ip);
+    if (ipv4) {
+      return `${ipv4[1]}.0/24`;
+    }
+    if (ip.includes(':')) {
+      const groups = ip.split(':').slice(0, 3).filter(Boolean).join(':');
+      return `${groups}::/48`;
+    }
+    return ip;
+  }
+
+  /**
+   * Browser and platform of a user agent, e.g. "Chrome on Windows"
+   */
+  private static describeDevice(userAgent: string): string {
+    const browsers: [RegExp, string][] = [
+      [/Edg\//i, 'Edge'],
+      [/OPR\/|Opera/i, 'Opera'],
+      [/Firefox\//i, 'Firefox'],
+      [/Chrome\/|CriOS\//i, 'Chrome'],
+      [/Safari\//i, 'Safari'],
+      [/okhttp|Dalvik/i, 'Android app'],
+      [/CFNetwork|Darwin/i, 'iOS app'],
+    ];
+    const platforms: [RegExp, string][] = [
+      [/iPhone/i, 'iPhone'],
+      [/iPad/i, 'iPad'],
+      [/Android/i, 'Android'],
+      [/Windows/i, 'Windows'],
+      [/Macintosh|Mac OS X/i, 'Mac'],
+      [/Linux/i, 'Linux'],
+    ];
+    const browser = browsers.find(([pattern]) => pattern.test(userAgent));
+    const platform = platforms.find(([pattern]) => pattern.test(userAgent));
+
+    if (browser && platform) {
+      return `${browser[1]} on ${platform[1]}`;
+    }
+    return browser?.[1] || platform?.[1] || 'Unknown device';
+  }
+
+  private static alertKey(jti: string): string {
+    return `${this.alertPrefix}${jti}`;
+  }
+}
@@ -0,0 +1,57 @@
+import { config, redisManager } from '@/config';
+
+/**
+ * Login Attempt Service
+ * Tracks failed login attempts per account and per IP address in Redis
+ */
+export class LoginAttemptService {
+  private static readonly ipPrefix = 'login-attempts:ip:';
+  private static readonly userPrefix = 'login-attempts:user:';
+
+  /**
+   * Lockout window in seconds, derived from config.security.lockoutDuration
+   */
+  private static get windowSeconds(): number {
+    return Math.ceil(config.security.lockoutDuration / 1000);
+  }
+
+  /**
+   * Check whether an IP address has exceeded the allowed failed attempts
+   */
+  public static async isIpLocked(ip: string): Promise<boolean> {
+    const count = await redisManager.get(`${this.ipPrefix}${ip}`);
+    return Number(count || 0) >= config.security.maxLoginAttempts;
+  }
+
+  /**
+   * Record a failed attempt for an IP address
+   */
+  public static async recordIpFailure(ip: string): Promise<number> {
+    const { count } = await redisManager.incrementRateLimit(
+      `${this.ipPrefix}${ip}`,
+      this.windowSeconds,
+      config.security.maxLoginAttempts
+    );
+    return count;
+  }
+
+  /**
+   * Record a failed attempt for an account
+   * @returns true when the account has reached the maximum allowed attempts
+   */
+  public static async recordUserFailure(userId: string): Promise<boolean> {
+    const { allowed } = await redisManager.incrementRateLimit(
+      `${this.userPrefix}${userId}`,
+      this.windowSeconds,
+      config.security.maxLoginAttempts - 1
+    );
+    return !allowed;
+  }
+
+  /**
+   * Clear failed attempts for an account after a successful login
+   */
+  public static async resetUser(userId: string): Promise<void> {
+    await redisManager.del(`${this.userPrefix}${userId}`);
+  }
+}
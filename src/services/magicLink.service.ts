@@ -0,0 +1,98 @@
+import { randomUUID } from 'crypto';
+import { config } from '@/config';
+import { jwtManager } from '@/config/jwt';
+import { redisManager } from '@/config/redis';
+
+// Purpose of the action token embedded in magic login links
+export const MAGIC_LINK_PURPOSE = 'magic_link';
+
+/**
+ * Magic Link Service
+ * Issues single-use login tokens for passwordless email login. Each token is a
+ * signed action token whose jti is tracked in Redis until it is consumed or
+ * expires, which also caps how many links a user can have outstanding.
+ */
+export class MagicLinkService {
+  private static readonly linkPrefix = 'magic-link:';
+  private static readonly userLinksPrefix = 'user-magic-links:';
+
+  /**
+   * Link lifetime in seconds, derived from config.security.magicLinkExpiry
+   */
+  public static get expirySeconds(): number {
+    return Math.ceil(config.security.magicLinkExpiry / 1000);
+  }
+
+  /**
+   * Issue a login token for a user
+   * @returns the token, or null when the user already has the maximum number
+   * of outstanding links
+   */
+  public static async issue(userId: string): Promise<string | null> {
+    if (
+      (await this.countOutstanding(userId)) >=
+      config.security.magicLinkMaxOutstanding
+    ) {
+      return null;
+    }
+
+    const jti = randomUUID();
+    const token = jwtManager.generateActionToken(
+      { userId, jti },
+      MAGIC_LINK_PURPOSE,
+      this.expirySeconds
+    );
+
+    await redisManager.set(this.linkKey(jti), userId, this.expirySeconds);
+    await redisManager.sadd(this.userLinksKey(userId), jti);
+    await redisManager.expire(this.userLinksKey(userId), this.expirySeconds);
+    return token;
+  }
+
+  /**
+   * Verify a login token and mark it as used
+   * @returns the user id, or null when the token is invalid, expired or used
+   */
+  public static async consume(token: string): Promise<string | null> {
+    let userId: string;
+    let jti: string | undefined;
+    try {
+      ({ userId, jti } = jwtManager.verifyActionToken(
+        token,
+        MAGIC_LINK_PURPOSE
+      ));
+    } catch {
+      return null;
+    }
+    if (!jti) {
+      return null;
+    }
+
+    // Deleting the key is the single-use check: only one request can remove it
+    const removed = await redisManager.del(this.linkKey(jti));
+    await redisManager.srem(this.userLinksKey(userId), jti);
+    return removed > 0 ? userId : null;
+  }
+
+  private static async countOutstanding(userId: string): Promise<number> {
+    const jtis = await redisManager.smembers(this.userLinksKey(userId));
+    let outstanding = 0;
+
+    for (const jti of jtis) {
+      if (await redisManager.exists(this.linkKey(jti))) {
+        outstanding++;
+      } else {
+        await redisManager.srem(this.userLinksKey(userId), jti);
+      }
+    }
+    return outstanding;
+  }
+
+  private static linkKey(jti: string): string {
+    return `${this.linkPrefix}${jti}`;
+  }
+
+  private static userLinksKey(userId: string): string {
+    return `${this.userLinksPrefix}${userId}`;
+  }
+}
@@ -0,0 +1,70 @@
+import { randomUUID } from 'crypto';
+import { config } from '@/config';
+import { MFA_PENDING_PURPOSE, jwtManager } from '@/config/jwt';
+import { redisManager } from '@/config/redis';
+
+/**
+ * MFA Token Service
+ * Issues the single-use tokens that carry a login from the password check to
+ * the 2FA step. Each token's jti is tracked in Redis until a login completes
+ * with it or it expires, so a token cannot be replayed for a second session.
+ */
+export class MfaTokenService {
+  private static readonly tokenPrefix = 'mfa-pending:';
+
+  /**
+   * Issue a pending 2FA token for a user who passed the password check
+   */
+  public static async issue(userId: string): Promise<string> {
+    const jti = randomUUID();
+    const token = jwtManager.generateActionToken(
+      { userId, jti },
+      MFA_PENDING_PURPOSE,
+      config.security.mfaTokenExpiry
+    );
+
+    const expiresAt = jwtManager.getTokenExpirationTime(token);
+    const ttl = expiresAt
+      ? Math.max(1, Math.ceil((expiresAt.getTime() - Date.now()) / 1000))
+      : 1;
+    await redisManager.set(this.tokenKey(jti), userId, ttl);
+    return token;
+  }
+
+  /**
+   * Verify a pending 2FA token without using it up
+   * @returns the user id and jti, or null when the token is invalid, expired
+   * or already used
+   */
+  public static async verify(
+    token: string
+  ): Promise<{ userId: string; jti: string } | null> {
+    let userId: string;
+    let jti: string | undefined;
+    try {
+      ({ userId, jti } = jwtManager.verifyActionToken(
+        token,
+        MFA_PENDING_PURPOSE
+      ));
+    } catch {
+      return null;
+    }
+    if (!jti || !(await redisManager.exists(this.tokenKey(jti)))) {
+      return null;
+    }
+    return { userId, jti };
+  }
+
+  /**
+   * Mark a verified token as used
+   * @returns false when another request already used it
+   */
+  public static async consume(jti: string): Promise<boolean> {
+    // Deleting the key is the single-use check: only one request can remove it
+    return (await redisManager.del(this.tokenKey(jti))) > 0;
+  }
+
+  private static tokenKey(jti: string): string {
+    return `${this.tokenPrefix}${jti}`;
+  }
+}
@@ -0,0 +1,234 @@
+import { redisManager } from '@/config/redis';
+import {
+  BASE_ROLE_BY_USER_ROLE,
+  PERMISSIONS,
+  SYSTEM_ROLES,
+} from '@/config/permissions';
+import ApiKey, { IApiKey } from '@/models/ApiKey.model';
+import Permission from '@/models/Permission.model';
+import Role from '@/models/Role.model';
+import User, { UserDocument } from '@/models/User.model';
+import { logger } from '@/utils/logger';
+
+/**
+ * Resource being accessed, used for ownership conditions
+ */
+export interface PolicyResource {
+  ownerId?: string | undefined;
+}
+
+/**
+ * Subject of a permission check: a user, or an API key acting for its owner
+ */
+export type PolicySubject = UserDocument | IApiKey;
+
+/**
+ * Policy Service
+ * Resolves a user's permissions from their base role and assigned roles,
+ * caches them in Redis and answers `can(user, action, resource)` checks.
+ * API keys are checked against their scopes instead, capped to what the
+ * key's owner currently holds, with `:own` grants referring to resources of
+ * the key's owner.
+ */
+export class PolicyService {
+  private static readonly cachePrefix = 'permissions:user:';
+  private static readonly versionKey = 'permissions:version';
+  private static readonly cacheTtl = 600; // 10 minutes
+
+  /**
+   * Check whether a user or API key may perform an action, optionally on a
+   * resource
+   */
+  public static async can(
+    subject: PolicySubject,
+    action: string,
+    resource?: PolicyResource
+  ): Promise<boolean> {
+    const isApiKey = subject instanceof ApiKey;
+    const permissions = isApiKey
+      ? await this.resolveApiKeyScopes(subject)
+      : await this.resolvePermissions(subject as UserDocument);
+    const ownerId = String(isApiKey ? subject.owner : subject._id);
+    const isOwner = !!resource?.ownerId && resource.ownerId === ownerId;
+
+    return permissions.some(granted => this.matches(granted, action, isOwner));
+  }
+
+  /**
+   * Resolve all permission grants of a user, using the Redis cache
+   */
+  public static async resolvePermissions(
+    user: UserDocument
+  ): Promise<string[]> {
+    const cacheKey = await this.cacheKey(String(user._id));
+    const cached: string[] | null = await redisManager.get(cacheKey);
+    if (cached) {
+      return cached;
+    }
+
+    const roles = await Role.find({
+      $or: [
+        { name: BASE_ROLE_BY_USER_ROLE[user.role] },
+        { _id: { $in: user.roles || [] } },
+      ],
+    }).lean();
+    const permissions = [...new Set(roles.flatMap(role => role.permissions))];
+
+    await redisManager.set(cacheKey, permissions, this.cacheTtl);
+    return permissions;
+  }
+
+  /**
+   * Resolve the scopes of an API key that its owner still holds
+   * A key never grants more than its owner, even after the owner loses a
+   * role.
+   */
+  public static async resolveApiKeyScopes(
+    apiKey: IApiKey,
+    owner?: UserDocument
+  ): Promise<string[]> {
+    const keyOwner = owner || (await User.findById(apiKey.owner));
+    if (!keyOwner) {
+      return [];
+    }
+    const ownerPermissions = await this.resolvePermissions(keyOwner);
+    return apiKey.scopes.filter(scope =>
+      this.coversGrant(ownerPermissions, scope)
+    );
+  }
+
+  /**
+   * Find the grants a user or API key does not hold themselves
+   * Used to stop anyone from handing out more than they have.
+   * @returns the grants that are not covered
+   */
+  public static async findUncoveredGrants(
+    subject: PolicySubject,
+    grants: string[]
+  ): Promise<string[]> {
+    const held =
+      subject instanceof ApiKey
+        ? await this.resolveApiKeyScopes(subject)
+        : await this.resolvePermissions(subject as UserDocument);
+    return grants.filter(grant => !this.coversGrant(held, grant));
+  }
+
+  /**
+   * Check whether a set of grants includes everything another grant allows
+   */
+  public static coversGrant(held: string[], grant: string): boolean {
+    const ownOnly = grant.endsWith(':own');
+    const base = ownOnly ? grant.slice(0, -4) : grant;
+
+    return held.some(granted => {
+      if (granted === '*') {
+        return true;
+      }
+      if (base === '*') {
+        return false;
+      }
+      const heldOwnOnly = granted.endsWith(':own');
+      const heldBase = heldOwnOnly ? granted.slice(0, -4) : granted;
+      if (heldOwnOnly && !ownOnly) {
+        return false;
+      }
+      if (heldBase.endsWith(':*')) {
+        return base.startsWith(heldBase.slice(0, -1));
+      }
+      return heldBase === base;
+    });
+  }
+
+  /**
+   * Drop the cached permissions of a single user
+   */
+  public static async invalidateUser(userId: string): Promise<void> {
+    await redisManager.del(await this.cacheKey(userId));
+  }
+
+  /**
+   * Invalidate every cached permission set after a role changes
+   */
+  public static async invalidateAll(): Promise<void> {
+    await redisManager.getClient().incr(this.versionKey);
+  }
+
+  /**
+   * Check that every grant refers to a known permission
+   * @returns the grants that are not valid
+   */
+  public static async findUnknownPermissions(
+    grants: string[]
+  ): Promise<string[]> {
+    const keys = (await Permission.find().select('key').lean()).map(p => p.key);
+    const resources = new Set(keys.map(key => key.split(':')[0]));
+
+    return grants.filter(grant => {
+      if (grant === '*') {
+        return false;
+      }
+      const base = grant.endsWith(':own') ? grant.slice(0, -4) : grant;
+      if (base.endsWith(':*')) {
+        return !resources.has(base.slice(0, -2));
+      }
+      return !keys.includes(base);
+    });
+  }
+
+  /**
+   * Insert the permission catalog and built-in roles when missing
+   * Existing documents are left untouched so admin edits survive restarts.
+   */
+  public static async seedDefaults(): Promise<void> {
+    await Promise.all([
+      ...PERMISSIONS.map(permission =>
+        Permission.updateOne(
+          { key: permission.key },
+          { $setOnInsert: permission },
+          { upsert: true }
+        )
+      ),
+      ...SYSTEM_ROLES.map(role =>
+        Role.updateOne(
+          { name: role.name },
+          { $setOnInsert: { ...role, isSystem: true } },
+          { upsert: true }
+        )
+      ),
+    ]);
+    logger.info('Permissions and system roles seeded');
+  }
+
+  private static matches(
+    granted: string,
+    action: string,
+    isOwner: boolean
+  ): boolean {
+    if (granted === '*') {
+      return true;
+    }
+
+    const ownOnly = granted.endsWith(':own');
+    const grant = ownOnly ? granted.slice(0, -4) : granted;
+    if (ownOnly && !isOwner) {
+      return false;
+    }
+
+    if (grant.endsWith(':*')) {
+      return action.startsWith(grant.slice(0, -1));
+    }
+    return grant === action;
+  }
+
+  private static async cacheKey(userId: string): Promise<string> {
+    const version = (await redisManager.get(this.versionKey)) || 0;
+    return `${this.cachePrefix}${userId}:v${version}`;
+  }
+}
+
+// Convenience function
+export const can = (
+  subject: PolicySubject,
+  action: string,
+  resource?: PolicyResource
+): Promise<boolean> => PolicyService.can(subject, action, resource);
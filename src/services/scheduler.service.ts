@@ -0,0 +1,80 @@
+import { logger } from '@/utils/logger';
+
+interface ScheduledJob {
+  name: string;
+  intervalMs: number;
+  task: () => Promise<void>;
+  timer?: ReturnType<typeof setInterval>;
+  running: boolean;
+}
+
+/**
+ * Scheduler Service
+ * Runs background maintenance jobs on a fixed interval inside the API
+ * process. A job is skipped while its previous run is still in progress, and
+ * failures are logged without stopping the schedule.
+ */
+export class SchedulerService {
+  private static readonly jobs = new Map<string, ScheduledJob>();
+
+  /**
+   * Register a job; takes effect on the next call to start
+   */
+  public static register(
+    name: string,
+    intervalMs: number,
+    task: () => Promise<void>
+  ): void {
+    if (this.jobs.has(name)) {
+      throw new Error(`Job "${name}" is already registered`);
+    }
+    this.jobs.set(name, { name, intervalMs, task, running: false });
+  }
+
+  /**
+   * Start every registered job that is not running yet
+   */
+  public static start(): void {
+    for (const job of this.jobs.values()) {
+      if (job.timer) {
+        continue;
+      }
+      job.timer = setInterval(() => void this.run(job), job.intervalMs);
+      // Do not keep the process alive just for background jobs
+      job.timer.unref();
+      logger.info(`Scheduled job "${job.name}" every ${job.intervalMs}ms`);
+    }
+  }
+
+  /**
+   * Stop every running job
+   */
+  public static stop(): void {
+    for (const job of this.jobs.values()) {
+      if (job.timer) {
+        clearInterval(job.timer);
+        delete job.timer;
+      }
+    }
+  }
+
+  private static async run(job: ScheduledJob): Promise<void> {
+    if (job.running) {
+      logger.warn(`Skipping job "${job.name}", previous run still in progress`);
+      return;
+    }
+
+    job.running = true;
+    const startedAt = Date.now();
+    try {
+      await job.task();
+      logger.debug(`Job "${job.name}" finished`, {
+        duration: `${Date.now() - startedAt}ms`,
+      });
+    } catch (error) {
+      logger.error(`Job "${job.name}" failed:`, error);
+    } finally {
+      job.running = false;
+    }
+  }
+}
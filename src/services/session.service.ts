@@ -0,0 +1,90 @@
+import { Request } from 'express';
+import { redisManager } from '@/config/redis';
+
+/**
+ * Client details captured when a session is created or refreshed
+ */
+export interface SessionClient {
+  deviceName: string;
+  userAgent: string;
+  ip: string;
+}
+
+/**
+ * A logged-in device, identified by its refresh token family
+ */
+export interface SessionInfo extends SessionClient {
+  id: string;
+  userId: string;
+  createdAt: string;
+  lastSeenAt: string;
+}
+
+/**
+ * Session Service
+ * Stores metadata about each logged-in device in Redis. A session shares its
+ * id and lifetime with the refresh token family it describes, so revoking the
+ * family ends the session.
+ */
+export class SessionService {
+  private static readonly deviceNameHeader = 'x-device-name';
+
+  /**
+   * Build the client details of a request
+   * Apps can name the device with the X-Device-Name header; otherwise a name is
+   * derived from the user agent.
+   */
+  public static clientFromRequest(req: Request): SessionClient {
+    const userAgent = req.get('user-agent') || '';
+    const deviceName = req.get(this.deviceNameHeader)?.trim().slice(0, 100);
+
+    return {
+      deviceName: deviceName || this.describeUserAgent(userAgent),
+      userAgent,
+      ip: req.ip || 'unknown',
+    };
+  }
+
+  /**
+   * Create or refresh the session of a token family
+   */
+  public static async record(
+    sessionId: string,
+    userId: string,
+    client: SessionClient,
+    ttlSeconds: number
+  ): Promise<SessionInfo> {
+    const existing = await this.get(sessionId);
+    const now = new Date().toISOString();
+    const session: SessionInfo = {
+      id: sessionId,
+      userId,
+      ...client,
+      createdAt: existing?.createdAt || now,
+      lastSeenAt: now,
+    };
+    await redisManager.setSession(sessionId, session, ttlSeconds);
+    return session;
+  }
+
+  public static async get(sessionId: string): Promise<SessionInfo | null> {
+    return await redisManager.getSession(sessionId);
+  }
+
+  public static async remove(sessionId: string): Promise<void> {
+    await redisManager.deleteSession(sessionId);
+  }
+
+  private static describeUserAgent(userAgent: string): string {
+    const platforms: [RegExp, string][] = [
+      [/iPhone/i, 'iPhone'],
+      [/iPad/i, 'iPad'],
+      [/Android/i, 'Android device'],
+      [/Windows/i, 'Windows PC'],
+      [/Macintosh|Mac OS X/i, 'Mac'],
+      [/Linux/i, 'Linux PC'],
+    ];
+    const platform = platforms.find(([pattern]) => pattern.test(userAgent));
+    return platform ? platform[1] : 'Unknown device';
+  }
+}
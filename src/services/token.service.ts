@@ -0,0 +1,325 @@
+import { randomUUID } from 'crypto';
+import { JWTPayload, TokenPair, jwtManager } from '@/config/jwt';
+import { redisManager } from '@/config/redis';
+import {
+  SessionClient,
+  SessionInfo,
+  SessionService,
+} from '@/services/session.service';
+import { logger, loggerUtils } from '@/utils/logger';
+
+interface TokenFamily {
+  userId: string;
+  jti: string;
+  createdAt: string;
+  rotatedAt: string;
+}
+
+// Compare-and-rotate of a family's current jti, so only one request can
+// consume a refresh token. Returns 0 when the family is missing or belongs to
+// another user, -1 when the jti is not the current one, and 1 on success.
+const CLAIM_REFRESH_TOKEN_SCRIPT = `
+local raw = redis.call('GET', KEYS[1])
+if not raw then
+  return 0
+end
+local family = cjson.decode(raw)
+if family.userId ~= ARGV[1] then
+  return 0
+end
+if family.jti ~= ARGV[2] then
+  return -1
+end
+family.jti = ARGV[3]
+local ttl = redis.call('PTTL', KEYS[1])
+if ttl > 0 then
+  redis.call('SET', KEYS[1], cjson.encode(family), 'PX', ttl)
+else
+  redis.call('SET', KEYS[1], cjson.encode(family))
+end
+return 1
+`;
+
+/**
+ * Token Service
+ * Issues token pairs and rotates refresh tokens using Redis-backed token
+ * families. Every refresh token belongs to a family created at login; only
+ * the latest token of a family is accepted, and presenting an older one
+ * revokes the whole family. Access tokens can be revoked individually via a
+ * jti denylist, or all at once per user. Each family is also a session that
+ * records the device it was issued to.
+ */
+export class TokenService {
+  private static readonly familyPrefix = 'refresh-family:';
+  private static readonly userFamiliesPrefix = 'user-families:';
+  private static readonly denylistPrefix = 'denylist:jti:';
+  private static readonly revokedBeforePrefix = 'tokens-revoked-before:';
+
+  /**
+   * Issue an access/refresh token pair, starting a new family unless one is given
+   * The session of the family is created or refreshed with the client details.
+   */
+  public static async issueTokenPair(
+    payload: Pick<JWTPayload, 'userId' | 'role'>,
+    client: SessionClient,
+    familyId: string = randomUUID()
+  ): Promise<TokenPair> {
+    const jti = randomUUID();
+    const claims: Omit<JWTPayload, 'iat' | 'exp'> = {
+      userId: payload.userId,
+      familyId,
+    };
+    if (payload.role) {
+      claims.role = payload.role;
+    }
+
+    const accessToken = jwtManager.generateAccessToken(claims);
+    const refreshToken = jwtManager.generateRefreshToken({ ...claims, jti });
+
+    const existing: TokenFamily | null = await redisManager.get(
+      this.familyKey(familyId)
+    );
+    const now = new Date().toISOString();
+    const family: TokenFamily = {
+      userId: payload.userId,
+      jti,
+      createdAt: existing?.createdAt || now,
+      rotatedAt: now,
+    };
+    const ttl = this.secondsUntilExpiry(refreshToken);
+    await redisManager.set(this.familyKey(familyId), family, ttl);
+    await redisManager.sadd(this.userFamiliesKey(payload.userId), familyId);
+    await SessionService.record(familyId, payload.userId, client, ttl);
+
+    return { accessToken, refreshToken };
+  }
+
+  /**
+   * Verify an access token, rejecting denylisted and revoked tokens
+   */
+  public static async verifyAccessToken(token: string): Promise<JWTPayload> {
+    const decoded = jwtManager.verifyAccessToken(token);
+
+    if (
+      decoded.jti &&
+      (await redisManager.exists(this.denylistKey(decoded.jti)))
+    ) {
+      throw new Error('Access token has been revoked');
+    }
+
+    // iat has one-second granularity, so tokens issued in the same second as
+    // a revocation are rejected too rather than risk keeping an older one
+    const revokedBefore: number | null = await redisManager.get(
+      this.revokedBeforeKey(decoded.userId)
+    );
+    if (revokedBefore && (decoded.iat || 0) <= revokedBefore) {
+      throw new Error('Access token has been revoked');
+    }
+
+    if (
+      decoded.familyId &&
+      !(await redisManager.exists(this.familyKey(decoded.familyId)))
+    ) {
+      throw new Error('Access token has been revoked');
+    }
+
+    return decoded;
+  }
+
+  /**
+   * Add an access token's jti to the denylist until it expires
+   */
+  public static async revokeAccessToken(payload: JWTPayload): Promise<void> {
+    if (!payload.jti || !payload.exp) {
+      return;
+    }
+    const ttl = payload.exp - Math.floor(Date.now() / 1000);
+    if (ttl > 0) {
+      await redisManager.set(this.denylistKey(payload.jti), true, ttl);
+    }
+  }
+
+  /**
+   * Revoke every access and refresh token issued to a user so far
+   */
+  public static async revokeAllForUser(userId: string): Promise<void> {
+    // Kept until every access token issued before now has expired
+    await redisManager.set(
+      this.revokedBeforeKey(userId),
+      Math.floor(Date.now() / 1000),
+      jwtManager.getAccessTokenLifetime()
+    );
+
+    const familyIds = await redisManager.smembers(this.userFamiliesKey(userId));
+    await Promise.all(familyIds.map(id => this.revokeFamily(id)));
+    await redisManager.del(this.userFamiliesKey(userId));
+  }
+
+  /**
+   * Revoke every session of a user except the given one
+   * Used after credential changes so only the current device stays signed in.
+   */
+  public static async revokeOtherSessions(
+    userId: string,
+    currentFamilyId?: string
+  ): Promise<void> {
+    const familyIds = await redisManager.smembers(this.userFamiliesKey(userId));
+    await Promise.all(
+      familyIds
+        .filter(id => id !== currentFamilyId)
+        .map(id => this.revokeFamily(id))
+    );
+  }
+
+  /**
+   * List the active sessions of a user, most recently used first
+   * Families that expired on their own are pruned from the user's index.
+   */
+  public static async listSessions(userId: string): Promise<SessionInfo[]> {
+    const familyIds = await redisManager.smembers(this.userFamiliesKey(userId));
+    const sessions: SessionInfo[] = [];
+
+    for (const familyId of familyIds) {
+      const exists = await redisManager.exists(this.familyKey(familyId));
+      const session = exists ? await SessionService.get(familyId) : null;
+      if (session) {
+        sessions.push(session);
+      } else {
+        await redisManager.srem(this.userFamiliesKey(userId), familyId);
+      }
+    }
+
+    return sessions.sort((a, b) => b.lastSeenAt.localeCompare(a.lastSeenAt));
+  }
+
+  /**
+   * Revoke one session of a user
+   * @returns false when the session does not exist or belongs to someone else
+   */
+  public static async revokeSession(
+    userId: string,
+    sessionId: string
+  ): Promise<boolean> {
+    const family: TokenFamily | null = await redisManager.get(
+      this.familyKey(sessionId)
+    );
+    if (!family || family.userId !== userId) {
+      return false;
+    }
+    await this.revokeFamily(sessionId);
+    return true;
+  }
+
+  /**
+   * Validate a refresh token against its family
+   * Returns the decoded payload when the token is the current one of its
+   * family, or null when it is invalid, revoked or replayed. A returned token
+   * is used up; the caller issues its replacement with issueTokenPair.
+   */
+  public static async consumeRefreshToken(
+    refreshToken: string,
+    ip?: string
+  ): Promise<JWTPayload | null> {
+    let decoded: JWTPayload;
+    try {
+      decoded = jwtManager.verifyRefreshToken(refreshToken);
+    } catch (error) {
+      logger.warn('Refresh token rejected', {
+        reason: error instanceof Error ? error.message : 'Unknown error',
+      });
+      return null;
+    }
+
+    if (!decoded.familyId || !decoded.jti) {
+      loggerUtils.logAuth(
+        'refresh_legacy_token',
+        decoded.userId,
+        undefined,
+        ip,
+        false
+      );
+      return null;
+    }
+
+    // Mark the token as used in the same step that checks it is current, so
+    // concurrent refreshes with one token cannot both succeed
+    const claimed = Number(
+      await redisManager
+        .getClient()
+        .eval(
+          CLAIM_REFRESH_TOKEN_SCRIPT,
+          1,
+          this.familyKey(decoded.familyId),
+          decoded.userId,
+          decoded.jti,
+          `consumed:${decoded.jti}`
+        )
+    );
+    if (claimed === 0) {
+      loggerUtils.logAuth(
+        'refresh_revoked_family',
+        decoded.userId,
+        undefined,
+        ip,
+        false
+      );
+      return null;
+    }
+
+    if (claimed < 0) {
+      await this.revokeFamily(decoded.familyId);
+      loggerUtils.logAuth(
+        'refresh_token_reuse',
+        decoded.userId,
+        undefined,
+        ip,
+        false
+      );
+      logger.warn('Refresh token reuse detected, token family revoked', {
+        userId: decoded.userId,
+        familyId: decoded.familyId,
+      });
+      return null;
+    }
+
+    return decoded;
+  }
+
+  /**
+   * Revoke every refresh token of a family
+   */
+  public static async revokeFamily(familyId: string): Promise<void> {
+    const family: TokenFamily | null = await redisManager.get(
+      this.familyKey(familyId)
+    );
+    await redisManager.del(this.familyKey(familyId));
+    await SessionService.remove(familyId);
+    if (family) {
+      await redisManager.srem(this.userFamiliesKey(family.userId), familyId);
+    }
+  }
+
+  private static familyKey(familyId: string): string {
+    return `${this.familyPrefix}${familyId}`;
+  }
+
+  private static userFamiliesKey(userId: string): string {
+    return `${this.userFamiliesPrefix}${userId}`;
+  }
+
+  private static denylistKey(jti: string): string {
+    return `${this.denylistPrefix}${jti}`;
+  }
+
+  private static revokedBeforeKey(userId: string): string {
+    return `${this.revokedBeforePrefix}${userId}`;
+  }
+
+  private static secondsUntilExpiry(token: string): number {
+    const expiresAt = jwtManager.getTokenExpirationTime(token);
+    if (!expiresAt) {
+      return 1;
+    }
+    return Math.max(1, Math.ceil((expiresAt.getTime() - Date.now()) / 1000));
+  }
+}
@@ -25,34 +25,101 @@ export interface IRideHistory {
   completedAt?: Date;
 }
 
+export interface ILinkedIdentity {
+  provider: 'google' | 'facebook' | 'github';
+  providerId: string;
+  email?: string;
+  linkedAt: Date;
+  lastUsedAt?: Date;
+}
+
+export interface IKnownDevice {
+  device: string;
+  ipPrefix: string;
+  country?: string;
+  region?: string;
+  firstSeenAt: Date;
+  lastSeenAt: Date;
+}
+
+// What a one-time code was sent for, so it cannot be used in another flow
+export type OtpPurpose =
+  | 'VERIFICATION'
+  | 'LOGIN'
+  | 'PASSWORD_RESET'
+  | 'PASSWORD_SETUP';
+
 export interface IUser extends BaseModel {
   firstName: string;
   lastName: string;
   email?: string;
   password?: string;
   phone?: string;
-  googleId?: string;
-  signupMethod: 'EMAIL' | 'PHONE' | 'GOOGLE';
+  phoneVerifiedAt?: Date;
+  identities: ILinkedIdentity[];
+  knownDevices: IKnownDevice[];
+  signupMethod: 'EMAIL' | 'PHONE' | 'GOOGLE' | 'FACEBOOK' | 'GITHUB';
   role: 'USER' | 'ADMIN' | 'DEVELOPER';
+  roles?: Types.ObjectId[];
   otp?: {
-    code: string;
+    codeHash?: string;
+    purpose?: OtpPurpose;
+    expiresAt: Date;
+    attempts: number;
+    lastSentAt?: Date;
+    lockedUntil?: Date;
+  };
+  pendingEmail?: string;
+  passwordReset?: {
+    tokenHash: string;
     expiresAt: Date;
   };
+  twoFactor?: {
+    enabled: boolean;
+    secret?: string;
+    pendingSecret?: string;
+    lastUsedStep?: number;
+    recoveryCodes?: string[];
+    enabledAt?: Date;
+  };
   status:
     | 'NEED_PHONE_VERIFICATION'
     | 'NEED_EMAIL_VERIFICATION'
     | 'NEED_PASSWORD_RESET'
     | 'TEMPORARY_BLOCKED'
     | 'BLOCKED'
+    | 'DELETED'
     | 'ACTIVE';
   blockedAt?: Date;
+  blockedUntil?: Date;
+  blockReason?: string;
+  deletion?: {
+    requestedAt: Date;
+    scheduledFor: Date;
+    purgeStartedAt?: Date;
+  };
+  deletedAt?: Date;
   image?: string;
+  imagePublicId?: string;
   location: ILocation;
   ratings?: IRating[];
   averageRating?: number;
   totalRides: number;
   rideHistory?: IRideHistory[];
   comparePassword(candidatePassword: string): Promise<boolean>;
-  generateOTP(): { code: string; expiresAt: Date };
-  isOTPValid(code: string): boolean;
+  generateOTP(purpose?: OtpPurpose): { code: string; expiresAt: Date };
+  isOTPValid(code: string, purpose?: OtpPurpose): boolean;
+  isOTPLocked(): boolean;
+  getOTPResendCooldown(): number;
+  blockTemporarily(duration?: number): Date;
+  getBlockedUntil(): Date | null;
+  generatePasswordResetToken(): string;
+  touchIdentity(provider: ILinkedIdentity['provider']): void;
+  countLoginMethods(): number;
+  isPhoneVerified(): boolean;
+  isTwoFactorRequired(): boolean;
+  startTwoFactorEnrollment(): string;
+  activateTwoFactor(code: string): string[] | null;
+  verifyTwoFactorCode(code: string): 'totp' | 'recovery' | null;
+  regenerateRecoveryCodes(): string[];
 }
@@ -1,21 +1,36 @@
 import { Request, Response } from 'express';
-import { Document, Model } from 'mongoose';
+import { FilterQuery, Model } from 'mongoose';
 import { ResponseUtil } from './response';
 
-interface PaginatedOptions {
+interface PaginatedOptions<T> {
   page?: number | undefined;
   limit?: number | undefined;
   search?: string | undefined;
   sortBy?: string | undefined;
   sortOrder?: 'asc' | 'desc';
   searchFields?: string[];
+  // Conditions every result must match, combined with the search
+  filter?: FilterQuery<T>;
+  // Fields to include or exclude, e.g. '-password'
+  select?: string;
 }
 export class DatabaseUtil {
-  public static async Paginated<T extends Document>(
+  /**
+   * Whether an error was raised by a unique index
+   */
+  public static isDuplicateKeyError(error: unknown): boolean {
+    return (
+      typeof error === 'object' &&
+      error !== null &&
+      (error as { code?: unknown }).code === 11000
+    );
+  }
+
+  public static async Paginated<T>(
     req: Request,
     res: Response,
     model: Model<T>,
-    options: PaginatedOptions
+    options: PaginatedOptions<T>
   ): Promise<void> {
     try {
       const {
@@ -25,9 +40,11 @@ export class DatabaseUtil {
         sortBy,
         sortOrder,
         searchFields = [],
+        filter = {},
+        select = '',
       } = options;
 
-      const searchQuery: any = {};
+      const searchQuery: any = { ...filter };
       if (search && searchFields.length > 0) {
         searchQuery.$or = searchFields.map(field => ({
           [field]: { $regex: search, $options: 'i' },
@@ -45,6 +62,7 @@ export class DatabaseUtil {
         [results, totalCount] = (await Promise.all([
           model
             .find(searchQuery)
+            .select(select)
             .sort(sortOptions)
             .skip(skip)
             .limit(limit)
@@ -60,7 +78,7 @@ export class DatabaseUtil {
         );
       } else {
         [results, totalCount] = (await Promise.all([
-          model.find(searchQuery).sort(sortOptions).lean(),
+          model.find(searchQuery).select(select).sort(sortOptions).lean(),
           model.countDocuments(searchQuery),
         ])) as [T[], number];
 
@@ -8,10 +8,169 @@ if (!fs.existsSync(logsDir)) {
   fs.mkdirSync(logsDir, { recursive: true });
 }
 
+// Keys whose values are never written to the logs. Keys are compared
+// case-insensitively without separators, and also match as a suffix so that
+// e.g. "token" covers accessToken and refresh_token.
+// Extend the list with LOG_REDACT_KEYS (comma-separated).
+const defaultRedactedKeys = [
+  'password',
+  'passcode',
+  'otp',
+  'token',
+  'secret',
+  'hash',
+  'authorization',
+  'cookie',
+  'apikey',
+  'privatekey',
+  'recoverycodes',
+  'cardnumber',
+  'cvv',
+  'cvc',
+];
+
+// Keys matched exactly rather than as a suffix, which would also hide
+// fields such as statusCode. They carry OAuth codes and state, verification
+// codes and sign-in links, mostly as query parameters.
+const exactRedactedKeys = ['link', 'code', 'state'];
+
+const normalizeKey = (key: string): string =>
+  key.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+const redactedKeys = [
+  ...defaultRedactedKeys,
+  ...(process.env['LOG_REDACT_KEYS'] || '').split(',').map(normalizeKey),
+].filter(Boolean);
+
+const REDACTED = '[REDACTED]';
+const emailPattern = /([^\s@"'<>]+)@([^\s@"'<>]+\.[^\s@"'<>]+)/g;
+const phonePattern = /^\+?[1-9]\d{7,14}$/;
+// Phone numbers in free text are only recognized in international format
+const textPhonePattern = /(?<![\w+])\+[1-9]\d{7,14}(?!\d)/g;
+const queryParamPattern = /([?&])([^=&#\s]+)=([^&#\s]*)/g;
+
+const isRedactedKey = (key: string): boolean => {
+  const normalized = normalizeKey(key);
+  return (
+    exactRedactedKeys.includes(normalized) ||
+    redactedKeys.some(entry => normalized.endsWith(entry))
+  );
+};
+
+/**
+ * Keep the first character of the local part: j***@example.com
+ */
+const maskEmails = (value: string): string =>
+  value.replace(
+    emailPattern,
+    (_match, local: string, domain: string) => `${local.charAt(0)}***@${domain}`
+  );
+
+/**
+ * Keep the last four digits: +*******4567
+ */
+const maskPhone = (value: string): string => {
+  const digits = value.replace('+', '');
+  const prefix = value.startsWith('+') ? '+' : '';
+  return `${prefix}${'*'.repeat(Math.max(0, digits.length - 4))}${digits.slice(-4)}`;
+};
+
+/**
+ * Mask international phone numbers inside free text
+ */
+const maskPhones = (value: string): string =>
+  value.replace(textPhonePattern, maskPhone);
+
+/**
+ * Mask sensitive query parameters in URLs: /verify?token=[REDACTED]
+ */
+const maskQueryParams = (value: string): string =>
+  value.replace(queryParamPattern, (match, separator: string, name: string) =>
+    isRedactedKey(name) ? `${separator}${name}=${REDACTED}` : match
+  );
+
+const redactValue = (
+  key: string,
+  value: unknown,
+  seen: WeakSet<object>,
+  depth = 0
+): unknown => {
+  if (value === undefined || value === null) {
+    return value;
+  }
+  if (isRedactedKey(key)) {
+    return REDACTED;
+  }
+
+  if (typeof value === 'string') {
+    if (
+      (normalizeKey(key).endsWith('phone') || value.startsWith('+')) &&
+      phonePattern.test(value)
+    ) {
+      return maskPhone(value);
+    }
+    return maskPhones(maskEmails(maskQueryParams(value)));
+  }
+
+  if (typeof value !== 'object' || value instanceof Date) {
+    return value;
+  }
+  if (value instanceof Error) {
+    return {
+      name: value.name,
+      message: maskPhones(maskEmails(value.message)),
+      stack: value.stack,
+    };
+  }
+  if (seen.has(value) || depth >= 10) {
+    return '[Circular]';
+  }
+  seen.add(value);
+
+  // Mongoose documents, ObjectIds and similar serialize through toJSON
+  const plain =
+    typeof (value as { toJSON?: unknown }).toJSON === 'function'
+      ? (value as { toJSON: () => unknown }).toJSON()
+      : value;
+  if (plain !== value) {
+    return redactValue(key, plain, seen, depth + 1);
+  }
+
+  if (Array.isArray(value)) {
+    return value.map(item => redactValue(key, item, seen, depth + 1));
+  }
+  return Object.fromEntries(
+    Object.entries(value).map(([entryKey, entryValue]) => [
+      entryKey,
+      redactValue(entryKey, entryValue, seen, depth + 1),
+    ])
+  );
+};
+
+/**
+ * Redaction format
+ * Masks secrets and partially masks emails and phone numbers in the message
+ * and metadata of every log entry. Part of every transport's format.
+ */
+export const redactFormat = winston.format(info => {
+  const seen = new WeakSet<object>();
+  for (const key of Object.keys(info)) {
+    if (key === 'level' || key === 'timestamp') {
+      continue;
+    }
+    info[key] =
+      key === 'message' || key === 'stack'
+        ? redactValue('', info[key], seen)
+        : redactValue(key, info[key], seen);
+  }
+  return info;
+});
+
 // Custom format for console output
 const consoleFormat = winston.format.combine(
   winston.format.timestamp({ format: 'YYYY-MM-DD HH:mm:ss' }),
   winston.format.errors({ stack: true }),
+  redactFormat(),
   winston.format.colorize(),
   winston.format.printf(
     ({ timestamp, level, message, service, requestId, ...meta }) => {
@@ -34,6 +193,7 @@ const consoleFormat = winston.format.combine(
 const fileFormat = winston.format.combine(
   winston.format.timestamp({ format: 'YYYY-MM-DD HH:mm:ss' }),
   winston.format.errors({ stack: true }),
+  redactFormat(),
   winston.format.json(),
   winston.format.prettyPrint()
 );
@@ -116,6 +276,7 @@ if (process.env['NODE_ENV'] === 'production') {
       format: winston.format.combine(
         winston.format.timestamp(),
         winston.format.errors({ stack: true }),
+        redactFormat(),
         winston.format.json()
       ),
       level: 'warn', // Only warnings and errors in production console
@@ -171,15 +332,18 @@ export const loggerUtils = {
 
   /**
    * Log authentication events
+   * Keep event names fixed and pass ids such as the acting admin in metadata.
    */
   logAuth: (
     event: string,
     userId?: string,
     email?: string,
     ip?: string,
-    success = true
+    success = true,
+    metadata?: Record<string, unknown>
   ) => {
     const logData = {
+      ...metadata,
       event,
       userId,
       email,
@@ -246,6 +410,16 @@ export const loggerUtils = {
   },
 };
 
+/**
+ * Stream for morgan, so access log lines go through the redaction format
+ * Lines are written at the info level, which the default LOG_LEVEL keeps.
+ */
+export const morganStream = {
+  write: (message: string): void => {
+    logger.info(message.trim());
+  },
+};
+
 export { logger };
 
 // Export default logger
@@ -1,5 +1,6 @@
 import { Response } from 'express';
 import {
+  ApiErrorCode,
   ErrorResponse,
   HttpStatusCode,
   ResponseMeta,
@@ -99,9 +100,12 @@ export class ResponseUtil {
    */
   static unauthorized(
     res: Response,
-    message: string = 'Unauthorized access'
+    message: string = 'Unauthorized access',
+    code: ApiErrorCode = ApiErrorCode.AUTHENTICATION_ERROR
   ): Response<ErrorResponse> {
-    return this.error(res, message, HttpStatusCode.UNAUTHORIZED);
+    return this.error(res, message, HttpStatusCode.UNAUTHORIZED, [
+      { field: 'authorization', message, code },
+    ]);
   }
 
   /**
@@ -109,9 +113,43 @@ export class ResponseUtil {
    */
   static forbidden(
     res: Response,
-    message: string = 'Access forbidden'
+    message: string = 'Access forbidden',
+    code: ApiErrorCode = ApiErrorCode.AUTHORIZATION_ERROR
   ): Response<ErrorResponse> {
-    return this.error(res, message, HttpStatusCode.FORBIDDEN);
+    return this.error(res, message, HttpStatusCode.FORBIDDEN, [
+      { field: 'authorization', message, code },
+    ]);
+  }
+
+  /**
+   * Send forbidden response for a temporarily blocked account
+   * Tells the client when to retry through the Retry-After header and
+   * meta.retryAt.
+   */
+  static accountLocked(
+    res: Response,
+    message: string,
+    retryAt: Date
+  ): Response<ErrorResponse> {
+    const retryAfter = Math.max(
+      0,
+      Math.ceil((retryAt.getTime() - Date.now()) / 1000)
+    );
+    res.setHeader('Retry-After', String(retryAfter));
+    const fullMessage = `${message} Please try again after ${retryAt.toISOString()}.`;
+    return this.error(
+      res,
+      fullMessage,
+      HttpStatusCode.FORBIDDEN,
+      [
+        {
+          field: 'authorization',
+          message: fullMessage,
+          code: ApiErrorCode.AUTHORIZATION_ERROR,
+        },
+      ],
+      { retryAt: retryAt.toISOString(), retryAfter }
+    );
   }
 
   /**
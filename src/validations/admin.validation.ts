@@ -0,0 +1,133 @@
+import { commonSchemas } from '@/middleware/validation';
+import { z } from 'zod';
+
+// Schema for listing users with filters
+export const listUsersSchema = z.object({
+  query: z
+    .object({
+      page: commonSchemas.pagination.shape.page,
+      limit: commonSchemas.pagination.shape.limit,
+      search: z.string().trim().min(1).max(100).optional(),
+      status: z
+        .enum([
+          'NEED_PHONE_VERIFICATION',
+          'NEED_EMAIL_VERIFICATION',
+          'NEED_PASSWORD_RESET',
+          'TEMPORARY_BLOCKED',
+          'BLOCKED',
+          'DELETED',
+          'ACTIVE',
+        ])
+        .optional(),
+      signupMethod: z
+        .enum(['EMAIL', 'PHONE', 'GOOGLE', 'FACEBOOK', 'GITHUB'])
+        .optional(),
+      role: z.enum(['USER', 'ADMIN', 'DEVELOPER']).optional(),
+      // Signup date range, either end may be left open
+      startDate: commonSchemas.dateRange.shape.startDate.optional(),
+      endDate: commonSchemas.dateRange.shape.endDate.optional(),
+      sort: z
+        .enum([
+          'createdAt',
+          'updatedAt',
+          'firstName',
+          'lastName',
+          'email',
+          'totalRides',
+          'averageRating',
+        ])
+        .optional()
+        .default('createdAt'),
+      order: commonSchemas.pagination.shape.order,
+    })
+    .refine(
+      data =>
+        !data.startDate ||
+        !data.endDate ||
+        new Date(data.startDate) <= new Date(data.endDate),
+      {
+        message: 'Start date must be before or equal to end date',
+        path: ['endDate'],
+      }
+    ),
+});
+
+// Schema for admin actions targeting a single user
+export const userIdParamSchema = z.object({
+  params: z.object({
+    id: commonSchemas.objectId,
+  }),
+});
+
+// Schema for revoking one session of a user
+export const userSessionParamSchema = z.object({
+  params: z.object({
+    id: commonSchemas.objectId,
+    sessionId: z.string().uuid('Invalid session ID'),
+  }),
+});
+
+// Schema for impersonating a user
+export const impersonateUserSchema = z.object({
+  params: z.object({
+    id: commonSchemas.objectId,
+  }),
+  body: z.object({
+    reason: z
+      .string({ message: 'Reason is required' })
+      .trim()
+      .min(3, 'Reason must be at least 3 characters long')
+      .max(500, 'Reason cannot exceed 500 characters'),
+  }),
+});
+
+// Schema for changing the base role of a user
+export const changeUserRoleSchema = z.object({
+  params: z.object({
+    id: commonSchemas.objectId,
+  }),
+  body: z.object({
+    role: z.enum(['USER', 'ADMIN', 'DEVELOPER'], {
+      message: 'Role must be USER, ADMIN or DEVELOPER',
+    }),
+  }),
+});
+
+// Schema for blocking a user
+export const blockUserSchema = z.object({
+  params: z.object({
+    id: commonSchemas.objectId,
+  }),
+  body: z
+    .object({
+      reason: z
+        .string({ message: 'Reason is required' })
+        .trim()
+        .min(3, 'Reason must be at least 3 characters long')
+        .max(500, 'Reason cannot exceed 500 characters'),
+      temporary: z.boolean().optional().default(false),
+      // Length of a temporary block, up to a year
+      durationMinutes: z
+        .number()
+        .int('Duration must be a whole number of minutes')
+        .min(1, 'Duration must be at least 1 minute')
+        .max(525600, 'Duration cannot exceed one year')
+        .optional(),
+    })
+    .refine(data => !data.temporary || data.durationMinutes !== undefined, {
+      message: 'Duration is required for a temporary block',
+      path: ['durationMinutes'],
+    })
+    .refine(data => data.temporary || data.durationMinutes === undefined, {
+      message: 'Duration only applies to temporary blocks',
+      path: ['durationMinutes'],
+    }),
+});
+
+// Type exports for TypeScript
+export type ListUsersInput = z.infer<typeof listUsersSchema>;
+export type UserIdParamInput = z.infer<typeof userIdParamSchema>;
+export type UserSessionParamInput = z.infer<typeof userSessionParamSchema>;
+export type ImpersonateUserInput = z.infer<typeof impersonateUserSchema>;
+export type ChangeUserRoleInput = z.infer<typeof changeUserRoleSchema>;
+export type BlockUserInput = z.infer<typeof blockUserSchema>;
@@ -0,0 +1,50 @@
+import { commonSchemas } from '@/middleware/validation';
+import { z } from 'zod';
+
+// Permission grant, in the same format as role permissions
+const scope = z
+  .string()
+  .regex(
+    /^(\*|[a-z-]+:(\*|[a-z-]+)(:own)?)$/,
+    'Scope must use the resource:action format'
+  );
+
+// Schema for creating an API key
+export const createApiKeySchema = z.object({
+  body: z.object({
+    name: z
+      .string({ message: 'API key name is required' })
+      .trim()
+      .min(1, 'API key name is required')
+      .max(100, 'Name cannot exceed 100 characters'),
+    ownerId: commonSchemas.objectId.optional(),
+    scopes: z
+      .array(scope, { message: 'Scopes are required' })
+      .min(1, 'At least one scope is required')
+      .max(50),
+    expiresAt: z.coerce
+      .date()
+      .refine(date => date > new Date(), 'Expiry must be in the future')
+      .optional(),
+    rateLimit: z.number().int().min(1).max(100000).optional(),
+  }),
+});
+
+// Schema for listing API keys
+export const listApiKeysSchema = z.object({
+  query: z.object({
+    ownerId: commonSchemas.objectId.optional(),
+  }),
+});
+
+// Schema for revoking an API key
+export const revokeApiKeySchema = z.object({
+  params: z.object({
+    id: commonSchemas.objectId,
+  }),
+});
+
+// Type exports for TypeScript
+export type CreateApiKeyInput = z.infer<typeof createApiKeySchema>;
+export type ListApiKeysInput = z.infer<typeof listApiKeysSchema>;
+export type RevokeApiKeyInput = z.infer<typeof revokeApiKeySchema>;
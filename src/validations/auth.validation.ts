@@ -23,22 +23,226 @@ export const signupValidation = z.object({
   }),
 });
 export const loginValidation = z.object({
+  body: z
+    .object({
+      email: z.string().email('Invalid email address').optional(),
+      phone: z
+        .string()
+        .regex(
+          /^\+[1-9]\d{10,14}$/,
+          'Phone number must be in E.164 format (e.g. +1234567890)'
+        )
+        .optional(),
+      password: z
+        .string({ message: 'Password is required' })
+        .min(6, 'Password must be at least 6 characters long'),
+    })
+    .refine(data => !!data.email !== !!data.phone, {
+      message: 'Provide either an email or a phone number',
+    }),
+});
+export const verifyEmailValidation = z.object({
   body: z.object({
     email: z
       .string({ message: 'Email is required' })
       .email('Invalid email address'),
-    password: z
-      .string({ message: 'Password is required' })
-      .min(6, 'Password must be at least 6 characters long'),
+    otp: z
+      .string({ message: 'OTP is required' })
+      .regex(/^\d{6}$/, 'OTP must be a 6-digit code'),
   }),
 });
-export const verifyEmailValidation = z.object({
+export const refreshTokenValidation = z.object({
+  body: z.object({
+    refreshToken: z
+      .string({ message: 'Refresh token is required' })
+      .min(1, 'Refresh token is required'),
+  }),
+});
+export const forgotPasswordValidation = z.object({
+  body: z
+    .object({
+      email: z.string().email('Invalid email address').optional(),
+      phone: z
+        .string()
+        .regex(
+          /^\+[1-9]\d{10,14}$/,
+          'Phone number must be in E.164 format (e.g. +1234567890)'
+        )
+        .optional(),
+    })
+    .refine(data => !!data.email !== !!data.phone, {
+      message: 'Provide either an email or a phone number',
+    }),
+});
+export const resetPasswordValidation = z.object({
+  body: z
+    .object({
+      token: z.string().min(1, 'Reset token is required').optional(),
+      phone: z
+        .string()
+        .regex(
+          /^\+[1-9]\d{10,14}$/,
+          'Phone number must be in E.164 format (e.g. +1234567890)'
+        )
+        .optional(),
+      otp: z
+        .string()
+        .regex(/^\d{6}$/, 'OTP must be a 6-digit code')
+        .optional(),
+      password: z
+        .string({ message: 'Password is required' })
+        .min(6, 'Password must be at least 6 characters long'),
+    })
+    .refine(data => !!data.token !== !!(data.phone && data.otp), {
+      message: 'Provide either a reset token or a phone number and OTP',
+    }),
+});
+export const magicLinkRequestValidation = z.object({
   body: z.object({
     email: z
       .string({ message: 'Email is required' })
       .email('Invalid email address'),
+  }),
+});
+export const magicLinkLoginValidation = z.object({
+  body: z.object({
+    token: z
+      .string({ message: 'Login token is required' })
+      .min(1, 'Login token is required'),
+  }),
+});
+export const secureAccountValidation = z.object({
+  body: z.object({
+    token: z
+      .string({ message: 'Token is required' })
+      .min(1, 'Token is required'),
+  }),
+});
+export const phoneSignupValidation = z.object({
+  body: z.object({
+    firstName: z.string().trim().max(50).optional(),
+    lastName: z.string().trim().max(50).optional(),
+    phone: z
+      .string({ message: 'Phone number is required' })
+      .regex(
+        /^\+[1-9]\d{10,14}$/,
+        'Phone number must be in E.164 format (e.g. +1234567890)'
+      ),
+    password: z
+      .string()
+      .min(6, 'Password must be at least 6 characters long')
+      .optional(),
+  }),
+});
+export const verifyPhoneValidation = z.object({
+  body: z.object({
+    phone: z
+      .string({ message: 'Phone number is required' })
+      .regex(
+        /^\+[1-9]\d{10,14}$/,
+        'Phone number must be in E.164 format (e.g. +1234567890)'
+      ),
     otp: z
       .string({ message: 'OTP is required' })
-      .min(6, 'OTP must be 6 characters long'),
+      .regex(/^\d{6}$/, 'OTP must be a 6-digit code'),
+  }),
+});
+export const phoneLoginRequestValidation = z.object({
+  body: z.object({
+    phone: z
+      .string({ message: 'Phone number is required' })
+      .regex(
+        /^\+[1-9]\d{10,14}$/,
+        'Phone number must be in E.164 format (e.g. +1234567890)'
+      ),
+  }),
+});
+export const phoneLoginValidation = z.object({
+  body: z.object({
+    phone: z
+      .string({ message: 'Phone number is required' })
+      .regex(
+        /^\+[1-9]\d{10,14}$/,
+        'Phone number must be in E.164 format (e.g. +1234567890)'
+      ),
+    otp: z
+      .string({ message: 'OTP is required' })
+      .regex(/^\d{6}$/, 'OTP must be a 6-digit code'),
+  }),
+});
+export const resendOtpValidation = z.object({
+  body: z
+    .object({
+      email: z.string().email('Invalid email address').optional(),
+      phone: z
+        .string()
+        .regex(
+          /^\+[1-9]\d{10,14}$/,
+          'Phone number must be in E.164 format (e.g. +1234567890)'
+        )
+        .optional(),
+    })
+    .refine(data => !!data.email !== !!data.phone, {
+      message: 'Provide either an email or a phone number',
+    }),
+});
+export const identityProviderValidation = z.object({
+  params: z.object({
+    provider: z.enum(['google', 'facebook', 'github'], {
+      message: 'Provider must be one of: google, facebook, github',
+    }),
+  }),
+});
+export const setPasswordValidation = z.object({
+  body: z.object({
+    otp: z
+      .string({ message: 'OTP is required' })
+      .regex(/^\d{6}$/, 'OTP must be a 6-digit code'),
+    password: z
+      .string({ message: 'Password is required' })
+      .min(6, 'Password must be at least 6 characters long'),
+  }),
+});
+export const sessionIdValidation = z.object({
+  params: z.object({
+    sessionId: z.string().uuid('Invalid session ID'),
+  }),
+});
+export const twoFactorSetupValidation = z.object({
+  body: z.object({
+    mfaToken: z.string().min(1, 'MFA token is required').optional(),
+  }),
+});
+export const twoFactorEnableValidation = z.object({
+  body: z.object({
+    code: z
+      .string({ message: 'Code is required' })
+      .regex(/^\d{6}$/, 'Code must be 6 digits'),
+    mfaToken: z.string().min(1, 'MFA token is required').optional(),
+  }),
+});
+export const twoFactorVerifyValidation = z.object({
+  body: z.object({
+    mfaToken: z
+      .string({ message: 'MFA token is required' })
+      .min(1, 'MFA token is required'),
+    code: z
+      .string({ message: 'Code is required' })
+      .trim()
+      .regex(
+        /^(\d{6}|[a-f0-9]{5}-[a-f0-9]{5})$/i,
+        'Code must be a 6-digit code or a recovery code'
+      ),
+  }),
+});
+export const twoFactorCodeValidation = z.object({
+  body: z.object({
+    code: z
+      .string({ message: 'Code is required' })
+      .trim()
+      .regex(
+        /^(\d{6}|[a-f0-9]{5}-[a-f0-9]{5})$/i,
+        'Code must be a 6-digit code or a recovery code'
+      ),
   }),
 });
@@ -0,0 +1,22 @@
+import { commonSchemas } from '@/middleware/validation';
+import { z } from 'zod';
+
+// Schema for listing outbox messages
+export const listEmailsSchema = z.object({
+  query: z.object({
+    status: z.enum(['PENDING', 'SENDING', 'SENT', 'DEAD']).optional(),
+    page: commonSchemas.pagination.shape.page,
+    limit: commonSchemas.pagination.shape.limit,
+  }),
+});
+
+// Schema for actions on a single outbox message
+export const emailIdParamSchema = z.object({
+  params: z.object({
+    id: commonSchemas.objectId,
+  }),
+});
+
+// Type exports for TypeScript
+export type ListEmailsInput = z.infer<typeof listEmailsSchema>;
+export type EmailIdParamInput = z.infer<typeof emailIdParamSchema>;
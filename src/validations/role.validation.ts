@@ -0,0 +1,65 @@
+import { commonSchemas } from '@/middleware/validation';
+import { z } from 'zod';
+
+// Permission grant, e.g. users:block, rides:read:own, fleet:*, *
+const permissionGrant = z
+  .string()
+  .regex(
+    /^(\*|[a-z-]+:(\*|[a-z-]+)(:own)?)$/,
+    'Permission must use the resource:action format'
+  );
+
+// Schema for creating a role
+export const createRoleSchema = z.object({
+  body: z.object({
+    name: z
+      .string({ message: 'Role name is required' })
+      .trim()
+      .toLowerCase()
+      .regex(
+        /^[a-z][a-z0-9_]{1,49}$/,
+        'Role name can only contain lowercase letters, numbers and underscores'
+      ),
+    description: z.string().trim().max(200).optional(),
+    permissions: z.array(permissionGrant).max(100).default([]),
+  }),
+});
+
+// Schema for updating a role
+export const updateRoleSchema = z.object({
+  params: z.object({
+    id: commonSchemas.objectId,
+  }),
+  body: z
+    .object({
+      description: z.string().trim().max(200).optional(),
+      permissions: z.array(permissionGrant).max(100).optional(),
+    })
+    .refine(data => Object.keys(data).length > 0, {
+      message:
+        'At least one field (description or permissions) must be provided for update',
+    }),
+});
+
+// Schema for deleting a role
+export const deleteRoleSchema = z.object({
+  params: z.object({
+    id: commonSchemas.objectId,
+  }),
+});
+
+// Schema for assigning roles to a user
+export const assignRolesSchema = z.object({
+  params: z.object({
+    id: commonSchemas.objectId,
+  }),
+  body: z.object({
+    roles: z.array(commonSchemas.objectId).max(20),
+  }),
+});
+
+// Type exports for TypeScript
+export type CreateRoleInput = z.infer<typeof createRoleSchema>;
+export type UpdateRoleInput = z.infer<typeof updateRoleSchema>;
+export type DeleteRoleInput = z.infer<typeof deleteRoleSchema>;
+export type AssignRolesInput = z.infer<typeof assignRolesSchema>;
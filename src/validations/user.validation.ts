@@ -0,0 +1,88 @@
+import { z } from 'zod';
+
+// Schema for updating the profile of the signed-in user
+export const updateProfileSchema = z.object({
+  body: z
+    .object({
+      firstName: z
+        .string()
+        .trim()
+        .min(1, 'First name cannot be empty')
+        .max(50, 'First name cannot exceed 50 characters')
+        .optional(),
+      lastName: z
+        .string()
+        .trim()
+        .min(1, 'Last name cannot be empty')
+        .max(50, 'Last name cannot exceed 50 characters')
+        .optional(),
+      phone: z
+        .string()
+        .regex(
+          /^\+[1-9]\d{10,14}$/,
+          'Phone number must be in E.164 format (e.g. +1234567890)'
+        )
+        .optional(),
+      image: z
+        .string()
+        .trim()
+        .url('Image must be a valid URL')
+        .refine(url => /^https:\/\//i.test(url), 'Image must be an https URL')
+        .optional(),
+    })
+    .refine(data => Object.keys(data).length > 0, {
+      message: 'Provide at least one field to update',
+    }),
+});
+
+// Schema for changing the password of the signed-in user
+export const changePasswordSchema = z.object({
+  body: z
+    .object({
+      currentPassword: z
+        .string({ message: 'Current password is required' })
+        .min(1, 'Current password is required'),
+      newPassword: z
+        .string({ message: 'New password is required' })
+        .min(6, 'Password must be at least 6 characters long'),
+    })
+    .refine(data => data.currentPassword !== data.newPassword, {
+      message: 'New password must be different from the current password',
+      path: ['newPassword'],
+    }),
+});
+
+// Schema for requesting an email change
+export const requestEmailChangeSchema = z.object({
+  body: z.object({
+    newEmail: z
+      .string({ message: 'New email is required' })
+      .trim()
+      .toLowerCase()
+      .email('Invalid email address'),
+    password: z.string().optional(),
+  }),
+});
+
+// Schema for confirming an email change
+export const confirmEmailChangeSchema = z.object({
+  body: z.object({
+    otp: z
+      .string({ message: 'OTP is required' })
+      .regex(/^\d{6}$/, 'OTP must be a 6-digit code'),
+  }),
+});
+
+// Schema for requesting account deletion
+export const requestDeletionSchema = z.object({
+  body: z.object({
+    password: z.string().optional(),
+  }),
+});
+
+// Type exports for TypeScript
+export type UpdateProfileInput = z.infer<typeof updateProfileSchema>;
+export type ChangePasswordInput = z.infer<typeof changePasswordSchema>;
+export type RequestEmailChangeInput = z.infer<typeof requestEmailChangeSchema>;
+export type ConfirmEmailChangeInput = z.infer<typeof confirmEmailChangeSchema>;
+export type RequestDeletionInput = z.infer<typeof requestDeletionSchema>;
@@ -0,0 +1,189 @@
+import express, { Express, NextFunction, Request, Response } from 'express';
+import request from 'supertest';
+import { JWTPayload, jwtManager } from '@/config/jwt';
+import { AdminController } from '@/controllers/admin.controller';
+import { UserDocument } from '@/models/User.model';
+import { AuditService } from '@/services/audit.service';
+import { TokenService } from '@/services/token.service';
+import { buildUser, stubUsers } from './helpers/fixtures';
+
+const admin = buildUser({ role: 'ADMIN', email: 'admin@example.com' });
+const adminId = String(admin._id);
+
+/**
+ * Mount the admin routes under test behind a stand-in for authenticate
+ */
+const createApp = (
+  auth: JWTPayload,
+  locals: Record<string, unknown> = {}
+): Express => {
+  const app = express();
+  app.use(express.json());
+  app.use((_req: Request, res: Response, next: NextFunction) => {
+    res.locals['auth'] = auth;
+    Object.assign(res.locals, locals);
+    next();
+  });
+  app.post('/users/:id/impersonate', AdminController.impersonateUser);
+  app.post(
+    '/users/:id/force-password-reset',
+    AdminController.forcePasswordReset
+  );
+  return app;
+};
+
+describe('AdminController.impersonateUser', () => {
+  let record: jest.SpyInstance;
+
+  beforeEach(() => {
+    record = jest.spyOn(AuditService, 'record').mockResolvedValue();
+  });
+
+  it('issues an access token that names the staff member as actor', async () => {
+    const rider = buildUser();
+    stubUsers(rider);
+
+    const response = await request(createApp({ userId: adminId }))
+      .post(`/users/${String(rider._id)}/impersonate`)
+      .send({ reason: 'Support ticket 42' });
+
+    expect(response.status).toBe(200);
+    const payload = jwtManager.verifyAccessToken(
+      response.body.data.accessToken
+    );
+    expect(payload).toMatchObject({
+      userId: String(rider._id),
+      actorId: adminId,
+    });
+    expect(record).toHaveBeenCalledWith(
+      expect.objectContaining({
+        action: 'impersonation.start',
+        actorId: adminId,
+        subjectId: String(rider._id),
+      }),
+      expect.anything()
+    );
+  });
+
+  it('refuses to start from an impersonated session', async () => {
+    const rider = buildUser();
+    stubUsers(rider);
+
+    const response = await request(
+      createApp({ userId: String(buildUser()._id), actorId: adminId })
+    )
+      .post(`/users/${String(rider._id)}/impersonate`)
+      .send({ reason: 'Chained impersonation' });
+
+    expect(response.status).toBe(403);
+    expect(record).not.toHaveBeenCalled();
+  });
+
+  it('refuses to start with an API key', async () => {
+    const rider = buildUser();
+    stubUsers(rider);
+
+    const response = await request(
+      createApp({ userId: adminId }, { apiKey: { _id: 'key-1' } })
+    )
+      .post(`/users/${String(rider._id)}/impersonate`)
+      .send({ reason: 'Automation' });
+
+    expect(response.status).toBe(403);
+  });
+
+  it('only impersonates riders', async () => {
+    const developer = buildUser({
+      role: 'DEVELOPER',
+      email: 'dev@example.com',
+    });
+    stubUsers(developer);
+
+    const response = await request(createApp({ userId: adminId }))
+      .post(`/users/${String(developer._id)}/impersonate`)
+      .send({ reason: 'Escalation' });
+
+    expect(response.status).toBe(403);
+    expect(response.body.message).toBe('Only riders can be impersonated');
+  });
+
+  it('only impersonates active riders', async () => {
+    const rider = buildUser({ status: 'BLOCKED' });
+    stubUsers(rider);
+
+    const response = await request(createApp({ userId: adminId }))
+      .post(`/users/${String(rider._id)}/impersonate`)
+      .send({ reason: 'Support ticket 42' });
+
+    expect(response.status).toBe(409);
+  });
+});
+
+describe('AdminController.forcePasswordReset', () => {
+  let record: jest.SpyInstance;
+  let revokeAllForUser: jest.SpyInstance;
+
+  beforeEach(() => {
+    record = jest.spyOn(AuditService, 'record').mockResolvedValue();
+    revokeAllForUser = jest
+      .spyOn(TokenService, 'revokeAllForUser')
+      .mockResolvedValue();
+  });
+
+  /**
+   * Force a reset on the given account as the given staff member
+   */
+  const forceReset = (
+    target: UserDocument,
+    actor: UserDocument = admin
+  ): request.Test => {
+    stubUsers(target);
+    jest.spyOn(target, 'save').mockResolvedValue(target);
+    return request(
+      createApp({ userId: String(actor._id) }, { user: actor })
+    ).post(`/users/${String(target._id)}/force-password-reset`);
+  };
+
+  it('signs the user out everywhere and records who forced the reset', async () => {
+    const rider = buildUser();
+
+    const response = await forceReset(rider);
+
+    expect(response.status).toBe(200);
+    expect(rider.status).toBe('NEED_PASSWORD_RESET');
+    expect(revokeAllForUser).toHaveBeenCalledWith(String(rider._id));
+    expect(record).toHaveBeenCalledWith(
+      {
+        action: 'user.force_password_reset',
+        actorId: adminId,
+        subjectId: String(rider._id),
+        details: { from: 'ACTIVE' },
+      },
+      expect.anything()
+    );
+  });
+
+  it('leaves staff accounts to admins', async () => {
+    const support = buildUser({ role: 'DEVELOPER' });
+    const developer = buildUser({ role: 'DEVELOPER' });
+
+    const response = await forceReset(developer, support);
+
+    expect(response.status).toBe(403);
+    expect(developer.status).toBe('ACTIVE');
+    expect(record).not.toHaveBeenCalled();
+  });
+
+  it.each(['BLOCKED', 'TEMPORARY_BLOCKED', 'DELETED'])(
+    'refuses %s accounts',
+    async status => {
+      const rider = buildUser({ status });
+
+      const response = await forceReset(rider);
+
+      expect(response.status).toBe(409);
+      expect(rider.status).toBe(status);
+      expect(revokeAllForUser).not.toHaveBeenCalled();
+    }
+  );
+});
@@ -0,0 +1,199 @@
+import express, { Express, Request, Response } from 'express';
+import request from 'supertest';
+import { apiKeyAuth } from '@/middleware/apiKey.middleware';
+import {
+  authenticateUserOrApiKey,
+  requirePermission,
+} from '@/middleware/auth.middleware';
+import ApiKey, { IApiKey } from '@/models/ApiKey.model';
+import { ApiKeyService } from '@/services/apiKey.service';
+import { buildUser, stubSystemRoles, stubUsers } from './helpers/fixtures';
+import { useMemoryRedis } from './helpers/redis';
+
+const owner = buildUser();
+const ownerId = String(owner._id);
+const otherUserId = String(buildUser()._id);
+
+const buildKey = (overrides: Record<string, unknown> = {}): IApiKey =>
+  new ApiKey({
+    name: 'Reporting',
+    prefix: 'gk_test',
+    keyHash: 'hash',
+    owner: owner._id,
+    createdBy: owner._id,
+    scopes: ['users:read:own'],
+    ...overrides,
+  });
+
+const createApp = (): Express => {
+  const app = express();
+  const ok = (_req: Request, res: Response): void => {
+    res.json({ userId: res.locals['auth'].userId });
+  };
+
+  app.use(apiKeyAuth);
+  app.get(
+    '/users/:id',
+    authenticateUserOrApiKey,
+    requirePermission('users:read', req => ({ ownerId: req.params['id'] })),
+    ok
+  );
+  app.post(
+    '/rides/:id/cancel',
+    authenticateUserOrApiKey,
+    requirePermission('rides:cancel'),
+    ok
+  );
+  return app;
+};
+
+describe('API key authentication', () => {
+  useMemoryRedis();
+
+  let app: Express;
+  let findUsableKey: jest.SpyInstance;
+
+  beforeEach(() => {
+    app = createApp();
+    stubUsers(owner);
+    stubSystemRoles();
+    findUsableKey = jest.spyOn(ApiKeyService, 'findUsableKey');
+    jest.spyOn(ApiKeyService, 'recordUsage').mockResolvedValue();
+  });
+
+  it('rejects an unknown, revoked or expired key', async () => {
+    findUsableKey.mockResolvedValue(null);
+
+    const response = await request(app)
+      .get(`/users/${ownerId}`)
+      .set('X-API-Key', 'gk_unknown');
+
+    expect(response.status).toBe(401);
+    expect(response.body.message).toBe('Invalid or expired API key');
+  });
+
+  it('rejects keys of owners who are no longer active', async () => {
+    findUsableKey.mockResolvedValue(buildKey());
+    owner.status = 'BLOCKED';
+
+    try {
+      const response = await request(app)
+        .get(`/users/${ownerId}`)
+        .set('X-API-Key', 'gk_test');
+
+      expect(response.status).toBe(403);
+    } finally {
+      owner.status = 'ACTIVE';
+    }
+  });
+
+  describe('scopes', () => {
+    it('acts as the owner for :own scopes', async () => {
+      findUsableKey.mockResolvedValue(buildKey());
+
+      const response = await request(app)
+        .get(`/users/${ownerId}`)
+        .set('X-API-Key', 'gk_test');
+
+      expect(response.status).toBe(200);
+      expect(response.body.userId).toBe(ownerId);
+    });
+
+    it('does not extend :own scopes to resources of other users', async () => {
+      findUsableKey.mockResolvedValue(buildKey());
+
+      const response = await request(app)
+        .get(`/users/${otherUserId}`)
+        .set('X-API-Key', 'gk_test');
+
+      expect(response.status).toBe(403);
+    });
+
+    it('denies actions outside the scopes of the key', async () => {
+      findUsableKey.mockResolvedValue(buildKey());
+
+      const response = await request(app)
+        .post(`/rides/${ownerId}/cancel`)
+        .set('X-API-Key', 'gk_test');
+
+      expect(response.status).toBe(403);
+      expect(response.body.message).toBe(
+        'You do not have permission to perform this action'
+      );
+    });
+
+    it('ignores scopes the owner no longer holds', async () => {
+      // A rider only holds users:read:own, so the broader scope is dropped
+      findUsableKey.mockResolvedValue(
+        buildKey({ scopes: ['users:read:own', 'users:read'] })
+      );
+
+      const response = await request(app)
+        .get(`/users/${otherUserId}`)
+        .set('X-API-Key', 'gk_test');
+
+      expect(response.status).toBe(403);
+    });
+
+    it('rejects keys whose owner holds none of their scopes', async () => {
+      findUsableKey.mockResolvedValue(
+        buildKey({ scopes: ['payments:refund'] })
+      );
+
+      const response = await request(app)
+        .get(`/users/${ownerId}`)
+        .set('X-API-Key', 'gk_test');
+
+      expect(response.status).toBe(403);
+      expect(response.body.message).toBe(
+        'The owner of this API key no longer holds any of its scopes'
+      );
+    });
+  });
+
+  describe('rate limiting', () => {
+    it('limits requests per key and reports the remaining quota', async () => {
+      findUsableKey.mockResolvedValue(buildKey({ rateLimit: 2 }));
+
+      const first = await request(app)
+        .get(`/users/${ownerId}`)
+        .set('X-API-Key', 'gk_test');
+      const second = await request(app)
+        .get(`/users/${ownerId}`)
+        .set('X-API-Key', 'gk_test');
+      const third = await request(app)
+        .get(`/users/${ownerId}`)
+        .set('X-API-Key', 'gk_test');
+
+      expect(first.status).toBe(200);
+      expect(first.headers['x-ratelimit-limit']).toBe('2');
+      expect(first.headers['x-ratelimit-remaining']).toBe('1');
+      expect(second.status).toBe(200);
+      expect(third.status).toBe(429);
+      expect(third.headers['x-ratelimit-remaining']).toBe('0');
+    });
+
+    it('keeps a separate limit for every key', async () => {
+      findUsableKey.mockResolvedValueOnce(buildKey({ rateLimit: 1 }));
+      findUsableKey.mockResolvedValueOnce(buildKey({ rateLimit: 1 }));
+
+      const first = await request(app)
+        .get(`/users/${ownerId}`)
+        .set('X-API-Key', 'gk_first');
+      const second = await request(app)
+        .get(`/users/${ownerId}`)
+        .set('X-API-Key', 'gk_second');
+
+      expect(first.status).toBe(200);
+      expect(second.status).toBe(200);
+    });
+  });
+
+  it('leaves requests without a key to bearer authentication', async () => {
+    const response = await request(app).get(`/users/${ownerId}`);
+
+    expect(response.status).toBe(401);
+    expect(response.body.message).toBe('Access token is required');
+    expect(findUsableKey).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,184 @@
+import express, { Express, Request, Response } from 'express';
+import request from 'supertest';
+import { smsManager } from '@/config';
+import { AuthController } from '@/controllers/auth.controller';
+import { authenticate } from '@/middleware/auth.middleware';
+import User, { UserDocument } from '@/models/User.model';
+import { LoginAlertService } from '@/services/loginAlert.service';
+import { TokenService } from '@/services/token.service';
+import { buildUser, stubUsers } from './helpers/fixtures';
+import { useMemoryRedis } from './helpers/redis';
+
+const createApp = (): Express => {
+  const app = express();
+  app.use(express.json());
+  app.post('/auth/user-login', AuthController.login);
+  app.post('/auth/logout', authenticate, AuthController.logout);
+  app.post('/auth/phone-login', AuthController.requestPhoneLogin);
+  app.post('/auth/phone-login/verify', AuthController.phoneLogin);
+  app.post('/auth/forgot-password', AuthController.forgotPassword);
+  app.post('/auth/reset-password', AuthController.resetPassword);
+  app.get('/me', authenticate, (_req: Request, res: Response) => {
+    res.json({ userId: res.locals['auth'].userId });
+  });
+  return app;
+};
+
+/**
+ * Stub the account lookup of a login with a user whose password matches
+ */
+const stubAccount = (user: UserDocument): void => {
+  jest.spyOn(User, 'findOne').mockResolvedValue(user);
+  jest.spyOn(user, 'comparePassword').mockResolvedValue(true);
+  jest.spyOn(user, 'save').mockResolvedValue(user);
+  stubUsers(user);
+};
+
+const PHONE = '+15551234567';
+
+/**
+ * A rider who signed up and verified a phone number, without an email
+ */
+const buildPhoneUser = (): UserDocument =>
+  buildUser({
+    email: undefined,
+    phone: PHONE,
+    signupMethod: 'PHONE',
+    phoneVerifiedAt: new Date(),
+  });
+
+describe('AuthController', () => {
+  useMemoryRedis();
+
+  let app: Express;
+  let issueTokenPair: jest.SpyInstance;
+  let sendSmsCode: jest.SpyInstance;
+
+  beforeEach(() => {
+    app = createApp();
+    issueTokenPair = jest.spyOn(TokenService, 'issueTokenPair');
+    sendSmsCode = jest
+      .spyOn(smsManager, 'sendVerificationCode')
+      .mockResolvedValue(true);
+    jest.spyOn(LoginAlertService, 'recordLogin').mockResolvedValue();
+  });
+
+  /**
+   * Request a code for a phone flow and return the code that was texted
+   */
+  const requestCode = async (path: string): Promise<string> => {
+    const response = await request(app).post(path).send({ phone: PHONE });
+    expect(response.status).toBe(200);
+    expect(sendSmsCode).toHaveBeenLastCalledWith(PHONE, expect.any(String));
+    return sendSmsCode.mock.lastCall[1];
+  };
+
+  describe('login', () => {
+    it('issues a token pair to active users', async () => {
+      stubAccount(buildUser());
+
+      const response = await request(app)
+        .post('/auth/user-login')
+        .send({ email: 'ada@example.com', password: 'Password1!' });
+
+      expect(response.status).toBe(200);
+      expect(response.body.data.accessToken).toBeDefined();
+      expect(response.body.data.refreshToken).toBeDefined();
+    });
+
+    it('issues no tokens while the phone number is unverified', async () => {
+      stubAccount(buildUser({ status: 'NEED_PHONE_VERIFICATION' }));
+
+      const response = await request(app)
+        .post('/auth/user-login')
+        .send({ email: 'ada@example.com', password: 'Password1!' });
+
+      expect(response.status).toBe(403);
+      expect(response.body.message).toBe('Please verify your phone number');
+      expect(issueTokenPair).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('phone-only accounts', () => {
+    it('signs out and back in with a code sent to the phone', async () => {
+      const user = buildPhoneUser();
+      stubAccount(user);
+
+      const signIn = async (): Promise<string> => {
+        const otp = await requestCode('/auth/phone-login');
+        const response = await request(app)
+          .post('/auth/phone-login/verify')
+          .send({ phone: PHONE, otp });
+        expect(response.status).toBe(200);
+        return response.body.data.accessToken;
+      };
+
+      const firstToken = await signIn();
+      const logout = await request(app)
+        .post('/auth/logout')
+        .set('Authorization', `Bearer ${firstToken}`);
+      expect(logout.status).toBe(200);
+      const signedOut = await request(app)
+        .get('/me')
+        .set('Authorization', `Bearer ${firstToken}`);
+      expect(signedOut.status).toBe(401);
+
+      const secondToken = await signIn();
+      const signedIn = await request(app)
+        .get('/me')
+        .set('Authorization', `Bearer ${secondToken}`);
+      expect(signedIn.status).toBe(200);
+      expect(signedIn.body.userId).toBe(String(user._id));
+    });
+
+    it('signs back in with the phone number and password', async () => {
+      stubAccount(buildPhoneUser());
+
+      const response = await request(app)
+        .post('/auth/user-login')
+        .send({ phone: PHONE, password: 'Password1!' });
+
+      expect(response.status).toBe(200);
+      expect(response.body.data.accessToken).toBeDefined();
+    });
+
+    it('resets a forgotten password with a code sent to the phone', async () => {
+      const user = buildPhoneUser();
+      stubAccount(user);
+
+      const otp = await requestCode('/auth/forgot-password');
+      const response = await request(app)
+        .post('/auth/reset-password')
+        .send({ phone: PHONE, otp, password: 'NewPassword1!' });
+
+      expect(response.status).toBe(200);
+      expect(user.password).toBe('NewPassword1!');
+      expect(user.otp?.codeHash).toBeUndefined();
+    });
+
+    it('does not accept a login code as a reset code', async () => {
+      const user = buildPhoneUser();
+      stubAccount(user);
+
+      const otp = await requestCode('/auth/phone-login');
+      const response = await request(app)
+        .post('/auth/reset-password')
+        .send({ phone: PHONE, otp, password: 'NewPassword1!' });
+
+      expect(response.status).toBe(400);
+      expect(user.password).toBeUndefined();
+    });
+
+    it('texts no codes to a number that was never verified', async () => {
+      // Email signups store a phone number without confirming it by SMS
+      stubAccount(buildUser({ phone: PHONE }));
+
+      const response = await request(app)
+        .post('/auth/phone-login')
+        .send({ phone: PHONE });
+
+      expect(response.status).toBe(200);
+      expect(sendSmsCode).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,163 @@
+import express, { Express, Request, Response } from 'express';
+import request from 'supertest';
+import { jwtManager } from '@/config/jwt';
+import {
+  authenticate,
+  denyImpersonation,
+  requirePermission,
+} from '@/middleware/auth.middleware';
+import { UserDocument } from '@/models/User.model';
+import { AuditService } from '@/services/audit.service';
+import { buildUser, stubSystemRoles, stubUsers } from './helpers/fixtures';
+import { useMemoryRedis } from './helpers/redis';
+
+const rider = buildUser();
+const riderId = String(rider._id);
+
+const createApp = (): Express => {
+  const app = express();
+  const ok = (_req: Request, res: Response): void => {
+    res.json({
+      userId: res.locals['auth'].userId,
+      actorId: res.locals['actor'] ? String(res.locals['actor']._id) : null,
+    });
+  };
+
+  app.get('/me', authenticate, ok);
+  app.get('/me/export', authenticate, denyImpersonation, ok);
+  app.get(
+    '/payments',
+    authenticate,
+    requirePermission('payments:read', () => ({ ownerId: riderId })),
+    ok
+  );
+  return app;
+};
+
+const impersonationToken = (actor: UserDocument): string =>
+  jwtManager.generateAccessToken({
+    userId: riderId,
+    role: 'USER',
+    actorId: String(actor._id),
+  });
+
+describe('Impersonation guards', () => {
+  useMemoryRedis();
+
+  let app: Express;
+  let recordImpersonatedRequest: jest.SpyInstance;
+
+  beforeEach(() => {
+    app = createApp();
+    stubSystemRoles();
+    recordImpersonatedRequest = jest
+      .spyOn(AuditService, 'recordImpersonatedRequest')
+      .mockResolvedValue();
+  });
+
+  describe('authenticate', () => {
+    it('accepts impersonation tokens of active staff and audits the request', async () => {
+      const admin = buildUser({ role: 'ADMIN', email: 'admin@example.com' });
+      stubUsers(rider, admin);
+
+      const response = await request(app)
+        .get('/me')
+        .set('Authorization', `Bearer ${impersonationToken(admin)}`);
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual({
+        userId: riderId,
+        actorId: String(admin._id),
+      });
+      expect(recordImpersonatedRequest).toHaveBeenCalledTimes(1);
+    });
+
+    it('rejects impersonation tokens once the actor is no longer staff', async () => {
+      const demoted = buildUser({ role: 'USER', email: 'former@example.com' });
+      stubUsers(rider, demoted);
+
+      const response = await request(app)
+        .get('/me')
+        .set('Authorization', `Bearer ${impersonationToken(demoted)}`);
+
+      expect(response.status).toBe(401);
+      expect(response.body.message).toBe('Impersonation is no longer allowed');
+      expect(recordImpersonatedRequest).not.toHaveBeenCalled();
+    });
+
+    it('rejects impersonation tokens of blocked actors', async () => {
+      const blocked = buildUser({
+        role: 'ADMIN',
+        status: 'BLOCKED',
+        email: 'blocked@example.com',
+      });
+      stubUsers(rider, blocked);
+
+      const response = await request(app)
+        .get('/me')
+        .set('Authorization', `Bearer ${impersonationToken(blocked)}`);
+
+      expect(response.status).toBe(401);
+    });
+  });
+
+  describe('denyImpersonation', () => {
+    it('blocks the route for impersonated sessions', async () => {
+      const admin = buildUser({ role: 'ADMIN', email: 'admin@example.com' });
+      stubUsers(rider, admin);
+
+      const response = await request(app)
+        .get('/me/export')
+        .set('Authorization', `Bearer ${impersonationToken(admin)}`);
+
+      expect(response.status).toBe(403);
+      expect(response.body.message).toBe(
+        'This action is not allowed while impersonating a user'
+      );
+    });
+
+    it('lets the user through with their own token', async () => {
+      stubUsers(rider);
+      const token = jwtManager.generateAccessToken({
+        userId: riderId,
+        role: 'USER',
+      });
+
+      const response = await request(app)
+        .get('/me/export')
+        .set('Authorization', `Bearer ${token}`);
+
+      expect(response.status).toBe(200);
+    });
+  });
+
+  describe('requirePermission', () => {
+    it('denies blocked resources during impersonation whatever the user holds', async () => {
+      const admin = buildUser({ role: 'ADMIN', email: 'admin@example.com' });
+      stubUsers(rider, admin);
+
+      const response = await request(app)
+        .get('/payments')
+        .set('Authorization', `Bearer ${impersonationToken(admin)}`);
+
+      expect(response.status).toBe(403);
+      expect(response.body.message).toBe(
+        'This action is not allowed while impersonating a user'
+      );
+    });
+
+    it('allows the same resource to the user themselves', async () => {
+      stubUsers(rider);
+      const token = jwtManager.generateAccessToken({
+        userId: riderId,
+        role: 'USER',
+      });
+
+      const response = await request(app)
+        .get('/payments')
+        .set('Authorization', `Bearer ${token}`);
+
+      expect(response.status).toBe(200);
+    });
+  });
+});
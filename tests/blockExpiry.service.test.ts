@@ -0,0 +1,123 @@
+import { config, emailManager } from '@/config';
+import { redisManager } from '@/config/redis';
+import User, { UserDocument } from '@/models/User.model';
+import { BlockExpiryService } from '@/services/blockExpiry.service';
+import { LoginAttemptService } from '@/services/loginAttempt.service';
+import { buildUser } from './helpers/fixtures';
+import { useMemoryRedis } from './helpers/redis';
+
+describe('BlockExpiryService', () => {
+  useMemoryRedis();
+
+  let findOneAndUpdate: jest.SpyInstance;
+  let sendUnlocked: jest.SpyInstance;
+
+  beforeEach(() => {
+    findOneAndUpdate = jest.spyOn(User, 'findOneAndUpdate');
+    sendUnlocked = jest
+      .spyOn(emailManager, 'sendAccountUnlockedNotification')
+      .mockResolvedValue(true);
+  });
+
+  /**
+   * Answer the atomic release with the given accounts, then with null
+   */
+  const releaseInOrder = (...users: UserDocument[]): void => {
+    for (const user of users) {
+      findOneAndUpdate.mockResolvedValueOnce(user);
+    }
+    findOneAndUpdate.mockResolvedValue(null);
+  };
+
+  describe('release', () => {
+    it('reactivates an account whose block has ended and notifies the owner', async () => {
+      const blocked = buildUser({ status: 'TEMPORARY_BLOCKED' });
+      const released = buildUser({ _id: blocked._id });
+      releaseInOrder(released);
+      await LoginAttemptService.recordUserFailure(String(blocked._id));
+
+      const result = await BlockExpiryService.release(blocked);
+
+      expect(result).toBe(released);
+      const [filter, update] = findOneAndUpdate.mock.calls[0];
+      expect(filter).toMatchObject({
+        _id: blocked._id,
+        status: 'TEMPORARY_BLOCKED',
+      });
+      expect(update).toEqual({
+        $set: { status: 'ACTIVE' },
+        $unset: { blockedAt: 1, blockedUntil: 1, blockReason: 1 },
+      });
+      expect(sendUnlocked).toHaveBeenCalledWith(
+        'ada@example.com',
+        'Ada Lovelace'
+      );
+      expect(
+        await redisManager.exists(`login-attempts:user:${String(blocked._id)}`)
+      ).toBe(0);
+    });
+
+    it('leaves active blocks and already released accounts alone', async () => {
+      const blocked = buildUser({
+        status: 'TEMPORARY_BLOCKED',
+        blockedUntil: new Date(Date.now() + 60000),
+      });
+      releaseInOrder();
+
+      expect(await BlockExpiryService.release(blocked)).toBeNull();
+      expect(sendUnlocked).not.toHaveBeenCalled();
+    });
+
+    it('only matches blocks that have ended', async () => {
+      releaseInOrder();
+      const before = Date.now();
+
+      await BlockExpiryService.release(
+        buildUser({ status: 'TEMPORARY_BLOCKED' })
+      );
+
+      const [filter] = findOneAndUpdate.mock.calls[0];
+      const now: Date = filter.$or[0].blockedUntil.$lte;
+      expect(now.getTime()).toBeGreaterThanOrEqual(before);
+      expect(now.getTime()).toBeLessThanOrEqual(Date.now());
+      // Blocks from before blockedUntil existed last the default lockout
+      expect(filter.$or[1]).toEqual({
+        blockedUntil: { $exists: false },
+        blockedAt: {
+          $lte: new Date(now.getTime() - config.security.lockoutDuration),
+        },
+      });
+    });
+  });
+
+  describe('releaseExpired', () => {
+    it('releases every expired block once and reports the count', async () => {
+      const first = buildUser({ email: 'first@example.com' });
+      const second = buildUser({ email: 'second@example.com' });
+      releaseInOrder(first, second);
+
+      expect(await BlockExpiryService.releaseExpired()).toBe(2);
+      expect(findOneAndUpdate).toHaveBeenCalledTimes(3);
+      expect(sendUnlocked).toHaveBeenCalledTimes(2);
+      expect(sendUnlocked).toHaveBeenCalledWith(
+        'second@example.com',
+        'Ada Lovelace'
+      );
+    });
+
+    it('keeps releasing when a notification fails', async () => {
+      releaseInOrder(buildUser(), buildUser());
+      sendUnlocked.mockRejectedValueOnce(new Error('SMTP unavailable'));
+
+      expect(await BlockExpiryService.releaseExpired()).toBe(2);
+      expect(sendUnlocked).toHaveBeenCalledTimes(2);
+    });
+
+    it('does nothing when no block has ended', async () => {
+      releaseInOrder();
+
+      expect(await BlockExpiryService.releaseExpired()).toBe(0);
+      expect(sendUnlocked).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,6 @@
+// Helpers registered on the global object by tests/setup.ts
+declare var testUtils: {
+  createMockUser: () => Record<string, unknown>;
+  createMockRequest: (overrides?: Record<string, unknown>) => any;
+  createMockResponse: () => any;
+};
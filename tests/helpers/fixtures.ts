@@ -0,0 +1,43 @@
+import { SYSTEM_ROLES } from '@/config/permissions';
+import Role from '@/models/Role.model';
+import User, { UserDocument } from '@/models/User.model';
+
+/**
+ * Build an unsaved ACTIVE user; tests stub the model queries that load it
+ */
+export const buildUser = (
+  overrides: Record<string, unknown> = {}
+): UserDocument =>
+  new User({
+    firstName: 'Ada',
+    lastName: 'Lovelace',
+    email: 'ada@example.com',
+    role: 'USER',
+    status: 'ACTIVE',
+    ...overrides,
+  });
+
+/**
+ * Answer User.findById with the given users, matched by id
+ */
+export const stubUsers = (...users: UserDocument[]): void => {
+  jest
+    .spyOn(User, 'findById')
+    .mockImplementation(((id: unknown) =>
+      Promise.resolve(
+        users.find(user => String(user._id) === String(id)) || null
+      )) as never);
+};
+
+/**
+ * Answer Role lookups with the built-in system roles
+ */
+export const stubSystemRoles = (): void => {
+  jest.spyOn(Role, 'find').mockImplementation(((filter: {
+    $or: { name?: string }[];
+  }) => {
+    const names = filter.$or.map(condition => condition.name);
+    const roles = SYSTEM_ROLES.filter(role => names.includes(role.name));
+    return { lean: () => Promise.resolve(roles) };
+  }) as never);
+};
@@ -0,0 +1,50 @@
+import { redisManager } from '@/config/redis';
+
+// ioredis-mock runs Lua scripts without the cjson library that Redis ships
+// with. This stand-in covers the flat objects of string values the scripts
+// in this repo decode and encode.
+const CJSON_SHIM = `
+local cjson = {}
+function cjson.decode(raw)
+  local value = {}
+  for k, v in string.gmatch(raw, '"([^"]+)":"([^"]*)"') do
+    value[k] = v
+  end
+  return value
+end
+function cjson.encode(value)
+  local parts = {}
+  for k, v in pairs(value) do
+    parts[#parts + 1] = '"' .. k .. '":"' .. v .. '"'
+  end
+  return '{' .. table.concat(parts, ',') .. '}'
+end
+`;
+
+/**
+ * Connect redisManager to an empty in-memory Redis for every test of a suite
+ * jest.config.js maps ioredis to ioredis-mock, so the real RedisManager
+ * methods run against it.
+ */
+export const useMemoryRedis = (): void => {
+  beforeAll(async () => {
+    await redisManager.connect();
+  });
+
+  beforeEach(async () => {
+    const client = redisManager.getClient();
+    await client.flushall();
+
+    const evaluate = client.eval.bind(client) as (
+      ...args: unknown[]
+    ) => Promise<unknown>;
+    jest
+      .spyOn(client, 'eval')
+      .mockImplementation(((script: string, ...args: unknown[]) =>
+        evaluate(CJSON_SHIM + script, ...args)) as typeof client.eval);
+  });
+
+  afterAll(async () => {
+    await redisManager.disconnect();
+  });
+};
@@ -0,0 +1,109 @@
+import express, { Express, NextFunction, Request, Response } from 'express';
+import request from 'supertest';
+import { emailManager } from '@/config';
+import { IdentityController } from '@/controllers/identity.controller';
+import { UserDocument } from '@/models/User.model';
+import { TokenService } from '@/services/token.service';
+import { buildUser } from './helpers/fixtures';
+
+/**
+ * Mount the password setup routes behind a stand-in for authenticate
+ */
+const createApp = (user: UserDocument): Express => {
+  const app = express();
+  app.use(express.json());
+  app.use((_req: Request, res: Response, next: NextFunction) => {
+    res.locals['auth'] = { userId: String(user._id), familyId: 'family-1' };
+    res.locals['user'] = user;
+    next();
+  });
+  app.post('/identities/password', IdentityController.requestPasswordSetup);
+  app.post('/identities/password/confirm', IdentityController.setPassword);
+  return app;
+};
+
+/**
+ * A user who signed up with Google and has no password yet
+ */
+const buildOAuthUser = (): UserDocument => {
+  const user = buildUser({
+    signupMethod: 'GOOGLE',
+    identities: [
+      { provider: 'google', providerId: 'google-123', linkedAt: new Date() },
+    ],
+  });
+  jest.spyOn(user, 'save').mockResolvedValue(user);
+  return user;
+};
+
+describe('IdentityController password setup', () => {
+  let sendCode: jest.SpyInstance;
+  let sendNotification: jest.SpyInstance;
+  let revokeOtherSessions: jest.SpyInstance;
+
+  beforeEach(() => {
+    sendCode = jest
+      .spyOn(emailManager, 'sendPasswordSetupCode')
+      .mockResolvedValue(true);
+    sendNotification = jest
+      .spyOn(emailManager, 'sendPasswordChangeNotification')
+      .mockResolvedValue(true);
+    revokeOtherSessions = jest
+      .spyOn(TokenService, 'revokeOtherSessions')
+      .mockResolvedValue();
+  });
+
+  it('adds a password with the emailed code and signs out other devices', async () => {
+    const user = buildOAuthUser();
+    const app = createApp(user);
+
+    const requested = await request(app).post('/identities/password');
+    expect(requested.status).toBe(200);
+    expect(sendCode).toHaveBeenCalledWith(
+      'ada@example.com',
+      'Ada Lovelace',
+      expect.any(String)
+    );
+
+    const response = await request(app)
+      .post('/identities/password/confirm')
+      .send({ otp: sendCode.mock.lastCall[2], password: 'Password1!' });
+
+    expect(response.status).toBe(200);
+    expect(user.password).toBe('Password1!');
+    expect(revokeOtherSessions).toHaveBeenCalledWith(
+      String(user._id),
+      'family-1'
+    );
+    expect(sendNotification).toHaveBeenCalledWith(
+      'ada@example.com',
+      'Ada Lovelace'
+    );
+  });
+
+  it('refuses to add a password without the emailed code', async () => {
+    const user = buildOAuthUser();
+    const app = createApp(user);
+    await request(app).post('/identities/password');
+
+    const response = await request(app)
+      .post('/identities/password/confirm')
+      .send({ otp: '000000', password: 'Password1!' });
+
+    expect(response.status).toBe(400);
+    expect(user.password).toBeUndefined();
+    expect(revokeOtherSessions).not.toHaveBeenCalled();
+  });
+
+  it('does not accept codes sent for another purpose', async () => {
+    const user = buildOAuthUser();
+    const { code } = user.generateOTP();
+
+    const response = await request(createApp(user))
+      .post('/identities/password/confirm')
+      .send({ otp: code, password: 'Password1!' });
+
+    expect(response.status).toBe(400);
+    expect(user.password).toBeUndefined();
+  });
+});
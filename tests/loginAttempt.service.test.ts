@@ -0,0 +1,56 @@
+import { config } from '@/config';
+import { redisManager } from '@/config/redis';
+import { LoginAttemptService } from '@/services/loginAttempt.service';
+import { useMemoryRedis } from './helpers/redis';
+
+const { maxLoginAttempts, lockoutDuration } = config.security;
+
+describe('LoginAttemptService', () => {
+  useMemoryRedis();
+
+  describe('per IP address', () => {
+    it('locks an IP address once it reaches the maximum failed attempts', async () => {
+      for (let i = 1; i < maxLoginAttempts; i++) {
+        await LoginAttemptService.recordIpFailure('203.0.113.10');
+      }
+      expect(await LoginAttemptService.isIpLocked('203.0.113.10')).toBe(false);
+
+      await LoginAttemptService.recordIpFailure('203.0.113.10');
+
+      expect(await LoginAttemptService.isIpLocked('203.0.113.10')).toBe(true);
+      expect(await LoginAttemptService.isIpLocked('203.0.113.11')).toBe(false);
+    });
+
+    it('counts failures within the lockout window', async () => {
+      const count = await LoginAttemptService.recordIpFailure('203.0.113.10');
+
+      const ttl = await redisManager.ttl('login-attempts:ip:203.0.113.10');
+
+      expect(count).toBe(1);
+      expect(ttl).toBeGreaterThan(0);
+      expect(ttl).toBeLessThanOrEqual(Math.ceil(lockoutDuration / 1000));
+    });
+  });
+
+  describe('per account', () => {
+    it('reports the lockout on the last allowed failed attempt', async () => {
+      const results: boolean[] = [];
+      for (let i = 0; i < maxLoginAttempts; i++) {
+        results.push(await LoginAttemptService.recordUserFailure('user-1'));
+      }
+
+      expect(results.slice(0, -1)).not.toContain(true);
+      expect(results[results.length - 1]).toBe(true);
+    });
+
+    it('starts counting again after a successful login', async () => {
+      for (let i = 1; i < maxLoginAttempts; i++) {
+        await LoginAttemptService.recordUserFailure('user-1');
+      }
+
+      await LoginAttemptService.resetUser('user-1');
+
+      expect(await LoginAttemptService.recordUserFailure('user-1')).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,264 @@
+import { Request } from 'express';
+import { emailManager } from '@/config/email';
+import { jwtManager } from '@/config/jwt';
+import {
+  OAUTH_LINK_COOKIE,
+  OAUTH_LOGIN_COOKIE,
+  OAuthLinkRequiredError,
+  passportManager,
+} from '@/config/passport';
+import User, { UserDocument } from '@/models/User.model';
+import { buildUser, stubUsers } from './helpers/fixtures';
+import { useMemoryRedis } from './helpers/redis';
+
+/**
+ * Request of an OAuth callback carrying a state and the browser's cookies
+ */
+const callbackRequest = (state?: string, cookie?: string): Request =>
+  ({
+    query: state ? { state } : {},
+    headers: cookie ? { cookie } : {},
+  }) as unknown as Request;
+
+const googleProfile = (
+  emails: { value: string; verified?: boolean }[] = [
+    { value: 'ada@example.com', verified: true },
+  ]
+): Parameters<(typeof passportManager)['handleOAuthUser']>[0] => ({
+  id: 'google-123',
+  displayName: 'Ada Lovelace',
+  emails,
+  photos: [],
+  provider: 'google',
+});
+
+// Facebook profiles carry no verified flag on their addresses
+const facebookProfile = (): Parameters<
+  (typeof passportManager)['handleOAuthUser']
+>[0] => ({
+  id: 'facebook-123',
+  displayName: 'Ada Lovelace',
+  emails: [{ value: 'ada@example.com' }],
+  photos: [],
+  provider: 'facebook',
+});
+
+const stubSave = (user: UserDocument): jest.SpyInstance =>
+  jest.spyOn(user, 'save').mockResolvedValue(user);
+
+describe('PassportManager', () => {
+  useMemoryRedis();
+
+  describe('link state', () => {
+    it('resolves the user who started the flow in the same browser', async () => {
+      const { state, nonce } = await passportManager.createLinkState('user-1');
+
+      const userId = await passportManager['resolveState'](
+        callbackRequest(state, `theme=dark; ${OAUTH_LINK_COOKIE}=${nonce}`)
+      );
+
+      expect(userId).toBe('user-1');
+    });
+
+    it('can only be used once', async () => {
+      const { state, nonce } = await passportManager.createLinkState('user-1');
+      const cookie = `${OAUTH_LINK_COOKIE}=${nonce}`;
+      await passportManager['resolveState'](callbackRequest(state, cookie));
+
+      await expect(
+        passportManager['resolveState'](callbackRequest(state, cookie))
+      ).rejects.toThrow(
+        'Link request is invalid, used or from another browser'
+      );
+    });
+
+    it('rejects a callback from another browser and uses up the state', async () => {
+      const { state, nonce } = await passportManager.createLinkState('user-1');
+
+      await expect(
+        passportManager['resolveState'](callbackRequest(state))
+      ).rejects.toThrow();
+      await expect(
+        passportManager['resolveState'](
+          callbackRequest(state, `${OAUTH_LINK_COOKIE}=attacker-nonce`)
+        )
+      ).rejects.toThrow();
+      await expect(
+        passportManager['resolveState'](
+          callbackRequest(state, `${OAUTH_LINK_COOKIE}=${nonce}`)
+        )
+      ).rejects.toThrow();
+    });
+
+    it('rejects states that were not issued for linking', async () => {
+      const accessToken = jwtManager.generateAccessToken({ userId: 'user-1' });
+
+      await expect(
+        passportManager['resolveState'](callbackRequest(accessToken))
+      ).rejects.toThrow();
+    });
+  });
+
+  describe('login state', () => {
+    it('accepts a sign-in completed in the browser that started it', async () => {
+      const { state, nonce } = await passportManager.createLoginState();
+
+      await expect(
+        passportManager['resolveState'](
+          callbackRequest(state, `${OAUTH_LOGIN_COOKIE}=${nonce}`)
+        )
+      ).resolves.toBeUndefined();
+    });
+
+    it('can only be used once', async () => {
+      const { state, nonce } = await passportManager.createLoginState();
+      const cookie = `${OAUTH_LOGIN_COOKIE}=${nonce}`;
+      await passportManager['resolveState'](callbackRequest(state, cookie));
+
+      await expect(
+        passportManager['resolveState'](callbackRequest(state, cookie))
+      ).rejects.toThrow(
+        'Login request is invalid, used or from another browser'
+      );
+    });
+
+    it('rejects a callback from another browser', async () => {
+      const { state } = await passportManager.createLoginState();
+      const attacker = await passportManager.createLoginState();
+
+      await expect(
+        passportManager['resolveState'](
+          callbackRequest(state, `${OAUTH_LOGIN_COOKIE}=${attacker.nonce}`)
+        )
+      ).rejects.toThrow();
+    });
+
+    it('rejects a callback without state', async () => {
+      await expect(
+        passportManager['resolveState'](callbackRequest())
+      ).rejects.toThrow('OAuth state is missing');
+    });
+  });
+
+  describe('linking an identity', () => {
+    it('attaches the provider identity to the signed-in user', async () => {
+      const user = buildUser();
+      stubUsers(user);
+      const save = stubSave(user);
+      jest.spyOn(User, 'findOne').mockResolvedValue(null);
+
+      const linked = await passportManager['handleOAuthUser'](
+        googleProfile(),
+        String(user._id)
+      );
+
+      expect(linked).toBe(user);
+      expect(save).toHaveBeenCalled();
+      expect(user.identities).toEqual([
+        expect.objectContaining({
+          provider: 'google',
+          providerId: 'google-123',
+          email: 'ada@example.com',
+        }),
+      ]);
+    });
+
+    it('refuses an identity that belongs to another user', async () => {
+      const user = buildUser();
+      const owner = buildUser({ email: 'owner@example.com' });
+      stubUsers(user, owner);
+      const save = stubSave(user);
+      jest.spyOn(User, 'findOne').mockResolvedValue(owner);
+
+      await expect(
+        passportManager['handleOAuthUser'](googleProfile(), String(user._id))
+      ).rejects.toThrow('This google account is linked to another user');
+      expect(save).not.toHaveBeenCalled();
+    });
+
+    it('refuses a second account of the same provider', async () => {
+      const user = buildUser({
+        identities: [
+          {
+            provider: 'google',
+            providerId: 'google-999',
+            linkedAt: new Date(),
+          },
+        ],
+      });
+      stubUsers(user);
+      jest.spyOn(User, 'findOne').mockResolvedValue(null);
+
+      await expect(
+        passportManager['handleOAuthUser'](googleProfile(), String(user._id))
+      ).rejects.toThrow('A google account is already linked to this user');
+    });
+  });
+
+  describe('signing in by email', () => {
+    it('does not link an unverified provider email to an existing account', async () => {
+      const user = buildUser();
+      const save = stubSave(user);
+      jest
+        .spyOn(User, 'findOne')
+        .mockResolvedValueOnce(null)
+        .mockResolvedValueOnce(user);
+
+      await expect(
+        passportManager['handleOAuthUser'](
+          googleProfile([{ value: 'ada@example.com' }])
+        )
+      ).rejects.toBeInstanceOf(OAuthLinkRequiredError);
+      expect(save).not.toHaveBeenCalled();
+    });
+
+    it('does not link to an account whose email is not verified', async () => {
+      const user = buildUser({ status: 'NEED_EMAIL_VERIFICATION' });
+      const save = stubSave(user);
+      jest
+        .spyOn(User, 'findOne')
+        .mockResolvedValueOnce(null)
+        .mockResolvedValueOnce(user);
+
+      await expect(
+        passportManager['handleOAuthUser'](googleProfile())
+      ).rejects.toBeInstanceOf(OAuthLinkRequiredError);
+      expect(save).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('signing up', () => {
+    let sendVerification: jest.SpyInstance;
+
+    beforeEach(() => {
+      jest.spyOn(User, 'findOne').mockResolvedValue(null);
+      jest.spyOn(User.prototype, 'save').mockImplementation(function (
+        this: UserDocument
+      ) {
+        return Promise.resolve(this);
+      });
+      sendVerification = jest
+        .spyOn(emailManager, 'sendEmailVerification')
+        .mockResolvedValue(true);
+    });
+
+    it('activates accounts whose email the provider has verified', async () => {
+      const user = await passportManager['handleOAuthUser'](googleProfile());
+
+      expect(user.status).toBe('ACTIVE');
+      expect(sendVerification).not.toHaveBeenCalled();
+    });
+
+    it('keeps accounts pending until an unverified email is confirmed', async () => {
+      const user = await passportManager['handleOAuthUser'](facebookProfile());
+
+      expect(user.status).toBe('NEED_EMAIL_VERIFICATION');
+      expect(user.signupMethod).toBe('FACEBOOK');
+      expect(sendVerification).toHaveBeenCalledWith(
+        'ada@example.com',
+        'Ada Lovelace',
+        expect.any(String)
+      );
+    });
+  });
+});
@@ -0,0 +1,187 @@
+import { jwtManager } from '@/config/jwt';
+import { redisManager } from '@/config/redis';
+import { SessionClient } from '@/services/session.service';
+import { TokenService } from '@/services/token.service';
+import { useMemoryRedis } from './helpers/redis';
+
+const client: SessionClient = {
+  deviceName: 'Chrome on macOS',
+  userAgent: 'jest',
+  ip: '203.0.113.10',
+};
+
+describe('TokenService', () => {
+  useMemoryRedis();
+
+  describe('refresh token rotation', () => {
+    it('accepts the current refresh token of a family once', async () => {
+      const pair = await TokenService.issueTokenPair(
+        { userId: 'user-1' },
+        client
+      );
+
+      const decoded = await TokenService.consumeRefreshToken(pair.refreshToken);
+
+      expect(decoded).toMatchObject({ userId: 'user-1' });
+      expect(decoded?.familyId).toBeDefined();
+    });
+
+    it('rejects a refresh token that was already used', async () => {
+      const pair = await TokenService.issueTokenPair(
+        { userId: 'user-1' },
+        client
+      );
+
+      await TokenService.consumeRefreshToken(pair.refreshToken);
+
+      expect(
+        await TokenService.consumeRefreshToken(pair.refreshToken)
+      ).toBeNull();
+    });
+
+    it('lets only one of two concurrent refreshes with a token succeed', async () => {
+      const pair = await TokenService.issueTokenPair(
+        { userId: 'user-1' },
+        client
+      );
+
+      const results = await Promise.all([
+        TokenService.consumeRefreshToken(pair.refreshToken),
+        TokenService.consumeRefreshToken(pair.refreshToken),
+      ]);
+
+      expect(results.filter(Boolean)).toHaveLength(1);
+    });
+
+    it('revokes the whole family when an old refresh token is reused', async () => {
+      const first = await TokenService.issueTokenPair(
+        { userId: 'user-1' },
+        client
+      );
+      const decoded = await TokenService.consumeRefreshToken(
+        first.refreshToken
+      );
+      const second = await TokenService.issueTokenPair(
+        { userId: 'user-1' },
+        client,
+        decoded?.familyId
+      );
+
+      // The stolen first token is replayed after the legitimate rotation
+      expect(
+        await TokenService.consumeRefreshToken(first.refreshToken)
+      ).toBeNull();
+
+      expect(
+        await TokenService.consumeRefreshToken(second.refreshToken)
+      ).toBeNull();
+      await expect(
+        TokenService.verifyAccessToken(second.accessToken)
+      ).rejects.toThrow('Access token has been revoked');
+      expect(await TokenService.listSessions('user-1')).toHaveLength(0);
+    });
+
+    it('rejects a refresh token presented for another user', async () => {
+      const pair = await TokenService.issueTokenPair(
+        { userId: 'user-1' },
+        client
+      );
+      const { familyId, jti } = jwtManager.verifyRefreshToken(
+        pair.refreshToken
+      );
+      const forged = jwtManager.generateRefreshToken({
+        userId: 'user-2',
+        ...(familyId ? { familyId } : {}),
+        ...(jti ? { jti } : {}),
+      });
+
+      expect(await TokenService.consumeRefreshToken(forged)).toBeNull();
+      expect(
+        await TokenService.consumeRefreshToken(pair.refreshToken)
+      ).not.toBeNull();
+    });
+  });
+
+  describe('access token revocation', () => {
+    it('rejects a denylisted access token', async () => {
+      const pair = await TokenService.issueTokenPair(
+        { userId: 'user-1' },
+        client
+      );
+      const payload = await TokenService.verifyAccessToken(pair.accessToken);
+
+      await TokenService.revokeAccessToken(payload);
+
+      await expect(
+        TokenService.verifyAccessToken(pair.accessToken)
+      ).rejects.toThrow('Access token has been revoked');
+    });
+
+    it('rejects every token of a user after revokeAllForUser', async () => {
+      const web = await TokenService.issueTokenPair(
+        { userId: 'user-1' },
+        client
+      );
+      const phone = await TokenService.issueTokenPair(
+        { userId: 'user-1' },
+        client
+      );
+      const other = await TokenService.issueTokenPair(
+        { userId: 'user-2' },
+        client
+      );
+
+      await TokenService.revokeAllForUser('user-1');
+
+      await expect(
+        TokenService.verifyAccessToken(web.accessToken)
+      ).rejects.toThrow('Access token has been revoked');
+      await expect(
+        TokenService.verifyAccessToken(phone.accessToken)
+      ).rejects.toThrow('Access token has been revoked');
+      expect(
+        await TokenService.consumeRefreshToken(phone.refreshToken)
+      ).toBeNull();
+      await expect(
+        TokenService.verifyAccessToken(other.accessToken)
+      ).resolves.toMatchObject({ userId: 'user-2' });
+    });
+
+    it('rejects tokens issued in the same second as the revocation', async () => {
+      const now = Date.now();
+      jest.spyOn(Date, 'now').mockReturnValue(now);
+
+      await TokenService.revokeAllForUser('user-1');
+      const accessToken = jwtManager.generateAccessToken({ userId: 'user-1' });
+
+      await expect(TokenService.verifyAccessToken(accessToken)).rejects.toThrow(
+        'Access token has been revoked'
+      );
+    });
+
+    it('accepts tokens issued after the revocation', async () => {
+      const now = Date.now();
+      const clock = jest.spyOn(Date, 'now').mockReturnValue(now);
+      await TokenService.revokeAllForUser('user-1');
+
+      clock.mockReturnValue(now + 1000);
+      const pair = await TokenService.issueTokenPair(
+        { userId: 'user-1' },
+        client
+      );
+
+      await expect(
+        TokenService.verifyAccessToken(pair.accessToken)
+      ).resolves.toMatchObject({ userId: 'user-1' });
+    });
+
+    it('expires the revocation marker with the access token lifetime', async () => {
+      await TokenService.revokeAllForUser('user-1');
+
+      const ttl = await redisManager.ttl('tokens-revoked-before:user-1');
+
+      expect(ttl).toBeGreaterThan(0);
+      expect(ttl).toBeLessThanOrEqual(jwtManager.getAccessTokenLifetime());
+    });
+  });
+});